@@ -89,6 +89,166 @@ describe('Environment validation', () => {
   });
 });
 
+describe('deleteSecrets', () => {
+  const originalFetch = globalThis.fetch;
+
+  beforeEach(() => {
+    vi.resetModules();
+    process.env = { ...originalEnv };
+    process.env.KEYWAY_API_URL = 'https://api.keyway.sh';
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    globalThis.fetch = originalFetch;
+    vi.resetModules();
+  });
+
+  it('pushes every key except the deleted ones', async () => {
+    const json = (body: unknown) =>
+      new Response(JSON.stringify(body), { headers: { 'content-type': 'application/json' } });
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(json({ data: { content: 'KEEP=1\nDROP=2\nALSO_DROP=3' } }))
+      .mockResolvedValueOnce(json({ data: { stats: { created: 0, updated: 0, deleted: 2 } } }));
+    globalThis.fetch = mockFetch;
+
+    const { deleteSecrets } = await import('../src/utils/api.js');
+    const result = await deleteSecrets('owner/repo', 'staging', ['DROP', 'ALSO_DROP'], 'token');
+
+    expect(result.stats?.deleted).toBe(2);
+    const pushBody = JSON.parse(mockFetch.mock.calls[1][1].body);
+    expect(pushBody).toEqual({
+      repoFullName: 'owner/repo',
+      environment: 'staging',
+      secrets: { KEEP: '1' },
+    });
+  });
+});
+
+describe('pullSecretsOrEmpty', () => {
+  const originalFetch = globalThis.fetch;
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'content-type': 'application/json' },
+    });
+
+  beforeEach(() => {
+    vi.resetModules();
+    process.env = { ...originalEnv };
+    process.env.KEYWAY_API_URL = 'https://api.keyway.sh';
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    globalThis.fetch = originalFetch;
+    vi.resetModules();
+  });
+
+  it('parses the environment contents', async () => {
+    globalThis.fetch = vi.fn().mockResolvedValue(json({ data: { content: 'A=1\nB=2' } }));
+
+    const { pullSecretsOrEmpty } = await import('../src/utils/api.js');
+
+    await expect(pullSecretsOrEmpty('owner/repo', 'staging', 'token')).resolves.toEqual({
+      A: '1',
+      B: '2',
+    });
+  });
+
+  it('reads an environment that does not exist as empty', async () => {
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValue(json({ title: 'Not Found', detail: 'Environment not found' }, 404));
+
+    const { pullSecretsOrEmpty } = await import('../src/utils/api.js');
+
+    await expect(pullSecretsOrEmpty('owner/repo', 'preview', 'token')).resolves.toEqual({});
+  });
+
+  it('throws any other failure', async () => {
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValue(json({ title: 'Forbidden', detail: 'No access to this vault' }, 403));
+
+    const { pullSecretsOrEmpty } = await import('../src/utils/api.js');
+
+    await expect(pullSecretsOrEmpty('owner/repo', 'staging', 'token')).rejects.toThrow(
+      'No access to this vault'
+    );
+  });
+});
+
+describe('Environment management', () => {
+  const originalFetch = globalThis.fetch;
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'content-type': 'application/json' },
+    });
+
+  beforeEach(() => {
+    vi.resetModules();
+    process.env = { ...originalEnv };
+    process.env.KEYWAY_API_URL = 'https://api.keyway.sh';
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    globalThis.fetch = originalFetch;
+    vi.resetModules();
+  });
+
+  it('returns only the environments that exist', async () => {
+    globalThis.fetch = vi.fn().mockResolvedValue(json({ data: { environments: ['preview'] } }));
+
+    const { getVaultEnvironments } = await import('../src/utils/api.js');
+
+    await expect(getVaultEnvironments('owner/repo', 'token')).resolves.toEqual(['preview']);
+  });
+
+  it('does not fall back to default environments', async () => {
+    globalThis.fetch = vi.fn().mockResolvedValue(json({ data: {} }));
+
+    const { getVaultEnvironments } = await import('../src/utils/api.js');
+
+    await expect(getVaultEnvironments('owner/repo', 'token')).rejects.toThrow(
+      'Invalid response format'
+    );
+  });
+
+  it('creates and deletes environments', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+    globalThis.fetch = mockFetch;
+
+    const { createEnvironment, deleteEnvironment } = await import('../src/utils/api.js');
+    await createEnvironment('owner/repo', 'preview', 'token');
+    await deleteEnvironment('owner/repo', 'preview', 'token');
+
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      'https://api.keyway.sh/v1/vaults/owner/repo/environments'
+    );
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({ name: 'preview' });
+    expect(mockFetch.mock.calls[1][0]).toBe(
+      'https://api.keyway.sh/v1/vaults/owner/repo/environments/preview'
+    );
+    expect(mockFetch.mock.calls[1][1].method).toBe('DELETE');
+  });
+
+  it('validates environment names before calling the API', async () => {
+    const mockFetch = vi.fn();
+    globalThis.fetch = mockFetch;
+
+    const { createEnvironment } = await import('../src/utils/api.js');
+
+    await expect(createEnvironment('owner/repo', '../prod', 'token')).rejects.toThrow(
+      'Invalid environment name'
+    );
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
 describe('APIError', () => {
   beforeEach(() => {
     vi.resetModules();
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { parseServerOptions } from '../src/utils/config.js';
+
+describe('parseServerOptions', () => {
+  it('defaults to stdio on localhost', () => {
+    const options = parseServerOptions([], {});
+
+    expect(options.transport).toBe('stdio');
+    expect(options.host).toBe('127.0.0.1');
+    expect(options.port).toBe(3333);
+    expect(options.token).toBeUndefined();
+  });
+
+  it('enables http mode with --http', () => {
+    const options = parseServerOptions(['--http', '--port', '8080', '--host', '0.0.0.0'], {});
+
+    expect(options.transport).toBe('http');
+    expect(options.port).toBe(8080);
+    expect(options.host).toBe('0.0.0.0');
+  });
+
+  it('reads environment variable fallbacks', () => {
+    const options = parseServerOptions([], {
+      KEYWAY_MCP_TRANSPORT: 'http',
+      KEYWAY_MCP_PORT: '4000',
+      KEYWAY_MCP_TOKEN: 'my-token',
+    });
+
+    expect(options.transport).toBe('http');
+    expect(options.port).toBe(4000);
+    expect(options.token).toBe('my-token');
+  });
+
+  it('prefers CLI flags over environment variables', () => {
+    const options = parseServerOptions(['--port', '5000'], { KEYWAY_MCP_PORT: '4000' });
+
+    expect(options.port).toBe(5000);
+  });
+
+  it('rejects invalid ports', () => {
+    expect(() => parseServerOptions(['--port', 'abc'], {})).toThrow('Invalid port');
+    expect(() => parseServerOptions(['--port', '70000'], {})).toThrow('Invalid port');
+  });
+
+  it('rejects unknown flags', () => {
+    expect(() => parseServerOptions(['--unknown'], {})).toThrow();
+  });
+
+  it('has an open tool policy by default', () => {
+    const options = parseServerOptions([], {});
+
+    expect(options.toolPolicy).toEqual({ readOnly: false, allow: undefined, deny: [] });
+  });
+
+  it('parses read-only mode and tool lists', () => {
+    const options = parseServerOptions(
+      [
+        '--read-only',
+        '--tools',
+        'keyway_list_secrets, keyway_diff',
+        '--exclude-tools',
+        'keyway_scan',
+      ],
+      {}
+    );
+
+    expect(options.toolPolicy).toEqual({
+      readOnly: true,
+      allow: ['keyway_list_secrets', 'keyway_diff'],
+      deny: ['keyway_scan'],
+    });
+  });
+
+  it('reads tool policy from environment variables', () => {
+    const options = parseServerOptions([], {
+      KEYWAY_MCP_READ_ONLY: 'true',
+      KEYWAY_MCP_TOOLS: 'keyway_diff',
+      KEYWAY_MCP_EXCLUDE_TOOLS: 'keyway_scan,keyway_validate',
+    });
+
+    expect(options.toolPolicy).toEqual({
+      readOnly: true,
+      allow: ['keyway_diff'],
+      deny: ['keyway_scan', 'keyway_validate'],
+    });
+  });
+
+  it('protects production by default', () => {
+    expect(parseServerOptions([], {}).protectedEnvironments).toEqual(['production']);
+  });
+
+  it('parses the protected environment list', () => {
+    expect(
+      parseServerOptions(['--protected-envs', 'production,staging'], {}).protectedEnvironments
+    ).toEqual(['production', 'staging']);
+    expect(parseServerOptions([], { KEYWAY_MCP_PROTECTED_ENVS: '' }).protectedEnvironments).toEqual(
+      []
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock the utils
+vi.mock('../src/utils/auth.js', () => ({
+  getToken: vi.fn().mockResolvedValue('mock-token'),
+}));
+
+vi.mock('../src/utils/git.js', () => ({
+  getRepository: vi.fn().mockReturnValue('owner/repo'),
+}));
+
+// Mock API with configurable responses
+const mockPullSecrets = vi.fn();
+const mockDeleteSecrets = vi.fn();
+vi.mock('../src/utils/api.js', () => ({
+  pullSecrets: mockPullSecrets,
+  deleteSecrets: mockDeleteSecrets,
+}));
+
+describe('deleteSecret', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPullSecrets.mockResolvedValue('OLD_KEY=value\nSTALE_URL=http://old\nKEEP=1');
+    mockDeleteSecrets.mockResolvedValue({ stats: { created: 0, updated: 0, deleted: 2 } });
+  });
+
+  it('deletes existing keys and reports missing ones', async () => {
+    const { deleteSecret } = await import('../src/tools/delete-secret.js');
+    const response = await deleteSecret({
+      names: ['STALE_URL', 'OLD_KEY', 'MISSING'],
+      environment: 'staging',
+    });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.deleted).toEqual(['OLD_KEY', 'STALE_URL']);
+    expect(data.notFound).toEqual(['MISSING']);
+    expect(data.message).toContain('Not found: MISSING');
+    expect(mockDeleteSecrets).toHaveBeenCalledWith(
+      'owner/repo',
+      'staging',
+      ['OLD_KEY', 'STALE_URL'],
+      'mock-token'
+    );
+  });
+
+  it('does not call the API when no key exists', async () => {
+    const { deleteSecret } = await import('../src/tools/delete-secret.js');
+    const response = await deleteSecret({ names: ['MISSING'], environment: 'staging' });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.deleted).toEqual([]);
+    expect(data.notFound).toEqual(['MISSING']);
+    expect(mockDeleteSecrets).not.toHaveBeenCalled();
+  });
+
+  it('asks for confirmation in protected environments', async () => {
+    const refusal = { content: [{ type: 'text' as const, text: 'refused' }], isError: true };
+    const guard = { isProtected: () => true, confirmWrite: vi.fn().mockResolvedValue(refusal) };
+
+    const { deleteSecret } = await import('../src/tools/delete-secret.js');
+    const response = await deleteSecret({ names: ['OLD_KEY'], environment: 'production' }, guard);
+
+    expect(response).toBe(refusal);
+    expect(guard.confirmWrite).toHaveBeenCalledWith({
+      repository: 'owner/repo',
+      environment: 'production',
+      keys: [{ name: 'OLD_KEY', action: 'delete' }],
+    });
+    expect(mockDeleteSecrets).not.toHaveBeenCalled();
+  });
+
+  it('names the secrets that still reference a deleted key', async () => {
+    mockPullSecrets.mockResolvedValue(
+      'DB_HOST=db\nDATABASE_URL=postgres://${DB_HOST}/app\nREPLICA_URL=${DATABASE_URL}?ro=1\nOTHER=1'
+    );
+    const guard = { isProtected: () => true, confirmWrite: vi.fn().mockResolvedValue(null) };
+
+    const { deleteSecret } = await import('../src/tools/delete-secret.js');
+    const response = await deleteSecret({ names: ['DB_HOST'], environment: 'production' }, guard);
+    const data = JSON.parse(response.content[0].text);
+
+    const warning = 'DATABASE_URL references DB_HOST and will keep the reference as literal text';
+    expect(guard.confirmWrite).toHaveBeenCalledWith({
+      repository: 'owner/repo',
+      environment: 'production',
+      keys: [{ name: 'DB_HOST', action: 'delete' }],
+      warnings: [warning],
+    });
+    expect(data.dependents).toEqual(['DATABASE_URL']);
+    expect(data.message).toContain(warning);
+    expect(mockDeleteSecrets).toHaveBeenCalled();
+  });
+
+  it('rejects invalid secret names', async () => {
+    const { deleteSecret } = await import('../src/tools/delete-secret.js');
+    const response = await deleteSecret({ names: ['bad-name'], environment: 'staging' });
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('"bad-name"');
+  });
+
+  it('requires at least one name and an environment', async () => {
+    const { deleteSecret } = await import('../src/tools/delete-secret.js');
+
+    expect((await deleteSecret({ names: [], environment: 'staging' })).isError).toBe(true);
+    expect((await deleteSecret({ names: ['OLD_KEY'], environment: '' })).isError).toBe(true);
+  });
+
+  it('returns an error when the environment cannot be read', async () => {
+    mockPullSecrets.mockRejectedValue(new Error('Not found'));
+
+    const { deleteSecret } = await import('../src/tools/delete-secret.js');
+    const response = await deleteSecret({ names: ['OLD_KEY'], environment: 'staging' });
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('Error deleting secrets: Not found');
+  });
+});
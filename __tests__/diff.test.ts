@@ -1,4 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { z } from 'zod';
 
 // Mock the utils
 vi.mock('../src/utils/auth.js', () => ({
@@ -75,6 +76,22 @@ describe('diff', () => {
     expect(data.stats.same).toBe(1);
   });
 
+  it('marks derived keys', async () => {
+    mockPullSecrets
+      .mockResolvedValueOnce('DB_HOST=dev-db\nDATABASE_URL=postgres://${DB_HOST}/app')
+      .mockResolvedValueOnce('DB_HOST=prod-db\nDATABASE_URL=postgres://prod-db/app');
+
+    const { diff } = await import('../src/tools/diff.js');
+    const response = await diff({ env1: 'development', env2: 'production' });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.derived).toEqual(['DATABASE_URL']);
+    expect(data.different.map((entry: { key: string }) => entry.key)).toEqual([
+      'DATABASE_URL',
+      'DB_HOST',
+    ]);
+  });
+
   it('normalizes environment names', async () => {
     mockPullSecrets.mockResolvedValueOnce('API_KEY=secret').mockResolvedValueOnce('API_KEY=secret');
 
@@ -139,4 +156,14 @@ describe('diff', () => {
 
     expect(data.repository).toBe('owner/repo');
   });
+
+  it('returns structured content matching the output schema', async () => {
+    mockPullSecrets.mockResolvedValueOnce('API_KEY=secret').mockResolvedValueOnce('OTHER=value');
+
+    const { diff, diffOutputSchema } = await import('../src/tools/diff.js');
+    const response = await diff({ env1: 'development', env2: 'production' });
+
+    expect(z.object(diffOutputSchema).safeParse(response.structuredContent).success).toBe(true);
+    expect(response.structuredContent).toEqual(JSON.parse(response.content[0].text));
+  });
 });
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { isOptionalEntry, parseEnvExample, updateEnvExample } from '../src/utils/env-example.js';
+
+describe('parseEnvExample', () => {
+  it('returns keys in file order with the comment block above each key', () => {
+    const entries = parseEnvExample(
+      [
+        '# Database',
+        '# Use the pooled connection string',
+        'DATABASE_URL=postgres://localhost/app',
+        '',
+        'API_KEY=',
+        'export PORT=3000',
+      ].join('\n')
+    );
+
+    expect(entries).toEqual([
+      { key: 'DATABASE_URL', comment: 'Database Use the pooled connection string' },
+      { key: 'API_KEY' },
+      { key: 'PORT' },
+    ]);
+  });
+
+  it('does not carry a comment across a blank line', () => {
+    expect(parseEnvExample('# Section header\n\nAPI_KEY=\n')).toEqual([{ key: 'API_KEY' }]);
+  });
+
+  it('marks keys with an "optional" comment as optional', () => {
+    const [required, optional] = parseEnvExample('API_KEY=\n# optional\nSENTRY_DSN=\n');
+
+    expect(isOptionalEntry(required)).toBe(false);
+    expect(isOptionalEntry(optional)).toBe(true);
+  });
+});
+
+describe('updateEnvExample', () => {
+  const existing = ['# Database', 'DATABASE_URL=', '', '# Legacy key', 'OLD_TOKEN=', ''].join('\n');
+
+  it('appends new keys and keeps existing comments and order', () => {
+    const update = updateEnvExample(existing, [
+      'STRIPE_KEY',
+      'DATABASE_URL',
+      'API_KEY',
+      'OLD_TOKEN',
+    ]);
+
+    expect(update.added).toEqual(['API_KEY', 'STRIPE_KEY']);
+    expect(update.stale).toEqual([]);
+    expect(update.content).toBe(
+      '# Database\nDATABASE_URL=\n\n# Legacy key\nOLD_TOKEN=\n\nAPI_KEY=\nSTRIPE_KEY=\n'
+    );
+  });
+
+  it('reports keys missing from the vault as stale without removing them', () => {
+    const update = updateEnvExample(existing, ['DATABASE_URL']);
+
+    expect(update.stale).toEqual(['OLD_TOKEN']);
+    expect(update.removed).toEqual([]);
+    expect(update.content).toBe(existing);
+  });
+
+  it('removes stale keys with their comments when pruning', () => {
+    const update = updateEnvExample(existing, ['DATABASE_URL'], true);
+
+    expect(update.removed).toEqual(['OLD_TOKEN']);
+    expect(update.content).toBe('# Database\nDATABASE_URL=\n\n');
+  });
+
+  it('creates content from scratch', () => {
+    expect(updateEnvExample('', ['B_KEY', 'A_KEY']).content).toBe('A_KEY=\nB_KEY=\n');
+  });
+});
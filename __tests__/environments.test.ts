@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock the utils
+vi.mock('../src/utils/auth.js', () => ({
+  getToken: vi.fn().mockResolvedValue('mock-token'),
+}));
+
+vi.mock('../src/utils/git.js', () => ({
+  getRepository: vi.fn().mockReturnValue('owner/repo'),
+}));
+
+// Mock API calls, keeping the real environment name validation
+const mockGetVaultEnvironments = vi.fn();
+const mockPullSecrets = vi.fn();
+const mockPushSecrets = vi.fn();
+const mockCreateEnvironment = vi.fn();
+const mockDeleteEnvironment = vi.fn();
+vi.mock('../src/utils/api.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/utils/api.js')>()),
+  getVaultEnvironments: mockGetVaultEnvironments,
+  pullSecrets: mockPullSecrets,
+  pushSecrets: mockPushSecrets,
+  createEnvironment: mockCreateEnvironment,
+  deleteEnvironment: mockDeleteEnvironment,
+}));
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockGetVaultEnvironments.mockResolvedValue(['development', 'staging', 'production']);
+  mockPullSecrets.mockResolvedValue('API_KEY=staging-key\nDATABASE_URL=postgres://staging');
+  mockPushSecrets.mockResolvedValue({});
+  mockCreateEnvironment.mockResolvedValue(undefined);
+  mockDeleteEnvironment.mockResolvedValue(undefined);
+});
+
+describe('createEnvironment', () => {
+  it('creates an empty environment', async () => {
+    const { createEnvironment } = await import('../src/tools/create-environment.js');
+    const response = await createEnvironment({ name: 'preview' });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data).toMatchObject({ success: true, name: 'preview', keyCount: 0 });
+    expect(data.clonedFrom).toBeUndefined();
+    expect(mockCreateEnvironment).toHaveBeenCalledWith('owner/repo', 'preview', 'mock-token');
+    expect(mockPushSecrets).not.toHaveBeenCalled();
+  });
+
+  it('clones the secrets of an existing environment', async () => {
+    const { createEnvironment } = await import('../src/tools/create-environment.js');
+    const response = await createEnvironment({ name: 'preview', cloneFrom: 'staging' });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data).toMatchObject({ clonedFrom: 'staging', keyCount: 2 });
+    expect(mockPushSecrets).toHaveBeenCalledWith(
+      'owner/repo',
+      'preview',
+      { API_KEY: 'staging-key', DATABASE_URL: 'postgres://staging' },
+      'mock-token'
+    );
+    expect(response.content[0].text).not.toContain('staging-key');
+  });
+
+  it('removes the new environment when cloning fails', async () => {
+    mockPushSecrets.mockRejectedValue(new Error('Payload too large'));
+
+    const { createEnvironment } = await import('../src/tools/create-environment.js');
+    const response = await createEnvironment({ name: 'preview', cloneFrom: 'staging' });
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('Payload too large. Nothing was changed.');
+    expect(mockDeleteEnvironment).toHaveBeenCalledWith('owner/repo', 'preview', 'mock-token');
+  });
+
+  it('refuses existing names and unknown sources', async () => {
+    const { createEnvironment } = await import('../src/tools/create-environment.js');
+
+    const existing = await createEnvironment({ name: 'staging' });
+    expect(existing.content[0].text).toContain('"staging" already exists');
+
+    const unknownSource = await createEnvironment({ name: 'preview', cloneFrom: 'qa' });
+    expect(unknownSource.content[0].text).toContain('"qa" does not exist');
+
+    expect(mockCreateEnvironment).not.toHaveBeenCalled();
+  });
+
+  it('rejects invalid environment names', async () => {
+    const { createEnvironment } = await import('../src/tools/create-environment.js');
+    const response = await createEnvironment({ name: 'my env' });
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('Invalid environment name "my env"');
+    expect(mockGetVaultEnvironments).not.toHaveBeenCalled();
+  });
+
+  it('asks for confirmation before cloning into a protected environment', async () => {
+    mockGetVaultEnvironments.mockResolvedValue(['staging']);
+    const refusal = { content: [{ type: 'text' as const, text: 'refused' }], isError: true };
+    const guard = { isProtected: () => true, confirmWrite: vi.fn().mockResolvedValue(refusal) };
+
+    const { createEnvironment } = await import('../src/tools/create-environment.js');
+    const response = await createEnvironment({ name: 'production', cloneFrom: 'staging' }, guard);
+
+    expect(response).toBe(refusal);
+    expect(mockCreateEnvironment).not.toHaveBeenCalled();
+  });
+});
+
+describe('deleteEnvironment', () => {
+  it('returns a key-count summary without confirm', async () => {
+    const { deleteEnvironment } = await import('../src/tools/delete-environment.js');
+    const response = await deleteEnvironment({ name: 'staging' });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data).toMatchObject({
+      deleted: false,
+      keyCount: 2,
+      keys: ['API_KEY', 'DATABASE_URL'],
+    });
+    expect(data.message).toContain('confirm: true');
+    expect(mockDeleteEnvironment).not.toHaveBeenCalled();
+  });
+
+  it('deletes the environment with confirm', async () => {
+    const { deleteEnvironment } = await import('../src/tools/delete-environment.js');
+    const response = await deleteEnvironment({ name: 'staging', confirm: true });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.deleted).toBe(true);
+    expect(mockDeleteEnvironment).toHaveBeenCalledWith('owner/repo', 'staging', 'mock-token');
+  });
+
+  it('asks for confirmation in protected environments', async () => {
+    const refusal = { content: [{ type: 'text' as const, text: 'refused' }], isError: true };
+    const guard = { isProtected: () => true, confirmWrite: vi.fn().mockResolvedValue(refusal) };
+
+    const { deleteEnvironment } = await import('../src/tools/delete-environment.js');
+    const response = await deleteEnvironment({ name: 'production', confirm: true }, guard);
+
+    expect(response).toBe(refusal);
+    expect(guard.confirmWrite.mock.calls[0][0].keys).toEqual([
+      { name: 'API_KEY', action: 'delete' },
+      { name: 'DATABASE_URL', action: 'delete' },
+    ]);
+    expect(mockDeleteEnvironment).not.toHaveBeenCalled();
+  });
+
+  it('returns an error for environments that do not exist', async () => {
+    const { deleteEnvironment } = await import('../src/tools/delete-environment.js');
+    const response = await deleteEnvironment({ name: 'preview', confirm: true });
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('"preview" does not exist');
+    expect(mockDeleteEnvironment).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+// Mock the utils
+vi.mock('../src/utils/auth.js', () => ({
+  getToken: vi.fn().mockResolvedValue('mock-token'),
+}));
+
+vi.mock('../src/utils/git.js', () => ({
+  getRepository: vi.fn().mockReturnValue('owner/repo'),
+}));
+
+// Mock API with configurable secrets
+const mockPullSecrets = vi.fn();
+vi.mock('../src/utils/api.js', () => ({
+  pullSecrets: mockPullSecrets,
+}));
+
+describe('generateEnvExample', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPullSecrets.mockResolvedValue('API_KEY=sk_live_abc123\nDATABASE_URL=postgres://db/app');
+
+    testDir = join(tmpdir(), `keyway-env-example-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('creates .env.example with key names only', async () => {
+    const path = join(testDir, '.env.example');
+
+    const { generateEnvExample } = await import('../src/tools/generate-env-example.js');
+    const response = await generateEnvExample({ path });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(response.isError).toBeFalsy();
+    expect(data.created).toBe(true);
+    expect(data.added).toEqual(['API_KEY', 'DATABASE_URL']);
+    expect(readFileSync(path, 'utf-8')).toBe('API_KEY=\nDATABASE_URL=\n');
+    expect(response.content[0].text).not.toContain('sk_live_abc123');
+  });
+
+  it('keeps existing comments and ordering when updating', async () => {
+    const path = join(testDir, '.env.example');
+    writeFileSync(path, '# Database\nDATABASE_URL=\n\n# No longer used\nOLD_TOKEN=\n');
+
+    const { generateEnvExample } = await import('../src/tools/generate-env-example.js');
+    const response = await generateEnvExample({ path, environment: 'staging' });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(mockPullSecrets).toHaveBeenCalledWith('owner/repo', 'staging', 'mock-token');
+    expect(data.created).toBe(false);
+    expect(data.added).toEqual(['API_KEY']);
+    expect(data.stale).toEqual(['OLD_TOKEN']);
+    expect(readFileSync(path, 'utf-8')).toBe(
+      '# Database\nDATABASE_URL=\n\n# No longer used\nOLD_TOKEN=\n\nAPI_KEY=\n'
+    );
+  });
+
+  it('removes stale keys when pruning', async () => {
+    const path = join(testDir, '.env.example');
+    writeFileSync(path, 'API_KEY=\nDATABASE_URL=\n# No longer used\nOLD_TOKEN=\n');
+
+    const { generateEnvExample } = await import('../src/tools/generate-env-example.js');
+    const response = await generateEnvExample({ path, prune: true });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.removed).toEqual(['OLD_TOKEN']);
+    expect(readFileSync(path, 'utf-8')).toBe('API_KEY=\nDATABASE_URL=\n');
+  });
+
+  it('does not write the file on a dry run', async () => {
+    const path = join(testDir, '.env.example');
+
+    const { generateEnvExample } = await import('../src/tools/generate-env-example.js');
+    const response = await generateEnvExample({ path, dryRun: true });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.dryRun).toBe(true);
+    expect(data.added).toEqual(['API_KEY', 'DATABASE_URL']);
+    expect(existsSync(path)).toBe(false);
+  });
+
+  it('returns an error when the vault cannot be read', async () => {
+    mockPullSecrets.mockRejectedValue(new Error('Network error'));
+
+    const { generateEnvExample } = await import('../src/tools/generate-env-example.js');
+    const response = await generateEnvExample({ path: join(testDir, '.env.example') });
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('Network error');
+  });
+
+  it('returns structured content matching the output schema', async () => {
+    const { generateEnvExample, generateEnvExampleOutputSchema } =
+      await import('../src/tools/generate-env-example.js');
+    const response = await generateEnvExample({ path: join(testDir, '.env.example') });
+
+    expect(() =>
+      z.object(generateEnvExampleOutputSchema).strict().parse(response.structuredContent)
+    ).not.toThrow();
+  });
+});
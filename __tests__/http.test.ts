@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { startHttpServer, type HttpServerHandle } from '../src/http.js';
+
+function createTestServer(): McpServer {
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  server.tool('ping', 'Ping', async () => ({ content: [{ type: 'text', text: 'pong' }] }));
+  return server;
+}
+
+async function connectClient(handle: HttpServerHandle, token: string): Promise<Client> {
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  const transport = new StreamableHTTPClientTransport(new URL(handle.url), {
+    requestInit: { headers: { Authorization: `Bearer ${token}` } },
+  });
+  await client.connect(transport);
+  return client;
+}
+
+describe('startHttpServer', () => {
+  let handle: HttpServerHandle;
+
+  beforeEach(async () => {
+    handle = await startHttpServer(createTestServer, { host: '127.0.0.1', port: 0 });
+  });
+
+  afterEach(async () => {
+    await handle.close();
+  });
+
+  it('binds to localhost and generates a token', () => {
+    expect(handle.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/mcp$/);
+    expect(handle.token).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('rejects requests without a bearer token', async () => {
+    const response = await fetch(handle.url, { method: 'POST', body: '{}' });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects requests with the wrong bearer token', async () => {
+    const response = await fetch(handle.url, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer wrong-token' },
+      body: '{}',
+    });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('returns 404 for other paths', async () => {
+    const url = handle.url.replace('/mcp', '/other');
+    const response = await fetch(url, { headers: { Authorization: `Bearer ${handle.token}` } });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('rejects non-initialize requests without a session', async () => {
+    const response = await fetch(handle.url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${handle.token}`,
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('rejects unknown session IDs', async () => {
+    const response = await fetch(handle.url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${handle.token}`,
+        'Content-Type': 'application/json',
+        'Mcp-Session-Id': 'does-not-exist',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('serves tools to an authenticated client', async () => {
+    const client = await connectClient(handle, handle.token);
+
+    const tools = await client.listTools();
+    expect(tools.tools.map((t) => t.name)).toEqual(['ping']);
+
+    const result = await client.callTool({ name: 'ping', arguments: {} });
+    expect(result.content).toEqual([{ type: 'text', text: 'pong' }]);
+
+    await client.close();
+  });
+
+  it('keeps a separate session per client', async () => {
+    const client1 = await connectClient(handle, handle.token);
+    const client2 = await connectClient(handle, handle.token);
+
+    expect(handle.sessionCount()).toBe(2);
+
+    await client1.close();
+    await client2.close();
+  });
+});
+
+describe('startHttpServer with a configured token', () => {
+  it('uses the provided token', async () => {
+    const handle = await startHttpServer(createTestServer, {
+      host: '127.0.0.1',
+      port: 0,
+      token: 'configured-token',
+    });
+
+    try {
+      expect(handle.token).toBe('configured-token');
+      const client = await connectClient(handle, 'configured-token');
+      await client.close();
+    } finally {
+      await handle.close();
+    }
+  });
+});
+
+describe('startHttpServer idle sessions', () => {
+  it('closes sessions of clients that went away without DELETE', async () => {
+    const closed: McpServer[] = [];
+    const handle = await startHttpServer(
+      () => {
+        const server = createTestServer();
+        server.server.onclose = () => closed.push(server);
+        return server;
+      },
+      { host: '127.0.0.1', port: 0, sessionIdleTimeoutMs: 50 }
+    );
+
+    try {
+      const client = await connectClient(handle, handle.token);
+      await client.callTool({ name: 'ping', arguments: {} });
+      expect(handle.sessionCount()).toBe(1);
+
+      // SDK clients close their streams but don't end the session
+      await client.close();
+      const deadline = Date.now() + 5000;
+      while (handle.sessionCount() > 0 && Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+
+      expect(handle.sessionCount()).toBe(0);
+      expect(closed).toHaveLength(1);
+    } finally {
+      await handle.close();
+    }
+  });
+});
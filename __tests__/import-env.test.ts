@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+// Mock the utils
+vi.mock('../src/utils/auth.js', () => ({
+  getToken: vi.fn().mockResolvedValue('mock-token'),
+}));
+
+vi.mock('../src/utils/git.js', () => ({
+  getRepository: vi.fn().mockReturnValue('owner/repo'),
+}));
+
+// Mock API with configurable responses
+const mockPullSecretsOrEmpty = vi.fn();
+const mockPushSecrets = vi.fn();
+vi.mock('../src/utils/api.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/utils/api.js')>()),
+  pullSecretsOrEmpty: mockPullSecretsOrEmpty,
+  pushSecrets: mockPushSecrets,
+}));
+
+describe('importEnv', () => {
+  let testDir: string;
+  let envPath: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPullSecretsOrEmpty.mockResolvedValue({ API_KEY: 'old', SAME: 'value', VAULT_ONLY: 'keep' });
+    mockPushSecrets.mockResolvedValue({});
+
+    testDir = join(tmpdir(), `keyway-import-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+    envPath = join(testDir, '.env');
+    writeFileSync(
+      envPath,
+      'API_KEY=new-secret-value\nSAME=value\nDATABASE_URL=postgres://localhost\nlower_case=x\n'
+    );
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('categorizes keys and pushes in one call', async () => {
+    const { importEnv } = await import('../src/tools/import-env.js');
+    const response = await importEnv({ path: envPath, environment: 'staging' });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.created).toEqual(['DATABASE_URL']);
+    expect(data.updated).toEqual(['API_KEY']);
+    expect(data.unchanged).toEqual(['SAME']);
+    expect(data.skipped).toEqual(['lower_case']);
+    expect(data.stats).toEqual({ created: 1, updated: 1, unchanged: 1, skipped: 1 });
+
+    expect(mockPushSecrets).toHaveBeenCalledTimes(1);
+    expect(mockPushSecrets).toHaveBeenCalledWith(
+      'owner/repo',
+      'staging',
+      {
+        API_KEY: 'new-secret-value',
+        SAME: 'value',
+        VAULT_ONLY: 'keep',
+        DATABASE_URL: 'postgres://localhost',
+      },
+      'mock-token'
+    );
+  });
+
+  it('never returns secret values', async () => {
+    const { importEnv } = await import('../src/tools/import-env.js');
+    const response = await importEnv({ path: envPath });
+
+    expect(response.content[0].text).not.toContain('new-secret-value');
+    expect(response.content[0].text).not.toContain('postgres://localhost');
+  });
+
+  it('previews without writing in dry run mode', async () => {
+    const { importEnv } = await import('../src/tools/import-env.js');
+    const response = await importEnv({ path: envPath, dryRun: true });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.dryRun).toBe(true);
+    expect(data.created).toEqual(['DATABASE_URL']);
+    expect(data.message).toContain('Dry run');
+    expect(mockPushSecrets).not.toHaveBeenCalled();
+  });
+
+  it('applies include and exclude filters', async () => {
+    const { importEnv } = await import('../src/tools/import-env.js');
+    const response = await importEnv({
+      path: envPath,
+      include: ['*_KEY', 'DATABASE_*'],
+      exclude: ['DATABASE_URL'],
+    });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.updated).toEqual(['API_KEY']);
+    expect(data.created).toEqual([]);
+    expect(data.unchanged).toEqual([]);
+  });
+
+  it('does not push when nothing changed', async () => {
+    const { importEnv } = await import('../src/tools/import-env.js');
+    const response = await importEnv({ path: envPath, include: ['SAME'] });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.message).toContain('Nothing to import');
+    expect(mockPushSecrets).not.toHaveBeenCalled();
+  });
+
+  it('asks for confirmation in protected environments', async () => {
+    const refusal = { content: [{ type: 'text' as const, text: 'refused' }], isError: true };
+    const guard = { isProtected: () => true, confirmWrite: vi.fn().mockResolvedValue(refusal) };
+
+    const { importEnv } = await import('../src/tools/import-env.js');
+    const response = await importEnv({ path: envPath, environment: 'production' }, guard);
+
+    expect(response).toBe(refusal);
+    expect(guard.confirmWrite.mock.calls[0][0].keys).toEqual([
+      { name: 'DATABASE_URL', action: 'create' },
+      { name: 'API_KEY', action: 'overwrite' },
+    ]);
+    expect(mockPushSecrets).not.toHaveBeenCalled();
+  });
+
+  it('creates every key when the environment does not exist yet', async () => {
+    mockPullSecretsOrEmpty.mockResolvedValue({});
+    const { importEnv } = await import('../src/tools/import-env.js');
+
+    const response = await importEnv({ path: envPath, environment: 'preview' });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.created).toEqual(['API_KEY', 'DATABASE_URL', 'SAME']);
+    expect(mockPushSecrets).toHaveBeenCalledTimes(1);
+  });
+
+  it('pushes nothing when the environment cannot be read', async () => {
+    const { APIError } = await import('../src/utils/api.js');
+    mockPullSecretsOrEmpty.mockRejectedValue(new APIError(500, 'Error', 'Internal server error'));
+    const { importEnv } = await import('../src/tools/import-env.js');
+
+    for (const dryRun of [false, true]) {
+      const response = await importEnv({ path: envPath, environment: 'staging', dryRun });
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('Internal server error');
+    }
+    expect(mockPushSecrets).not.toHaveBeenCalled();
+  });
+
+  it('returns error for missing file', async () => {
+    const { importEnv } = await import('../src/tools/import-env.js');
+    const response = await importEnv({ path: join(testDir, 'missing.env') });
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('does not exist');
+  });
+});
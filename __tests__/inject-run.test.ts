@@ -1,4 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
 
 // Use vi.hoisted to define mocks that will be hoisted with vi.mock
 const { mockGetToken, mockGetRepository, mockPullSecrets } = vi.hoisted(() => ({
@@ -21,7 +22,7 @@ vi.mock('../src/utils/api.js', () => ({
 }));
 
 // Import after mocks are set up
-import { injectRun } from '../src/tools/inject-run.js';
+import { injectRun, injectRunOutputSchema } from '../src/tools/inject-run.js';
 import { pullSecrets } from '../src/utils/api.js';
 
 describe('injectRun', () => {
@@ -75,6 +76,15 @@ describe('injectRun', () => {
       expect(result.isError).toBe(true);
       expect(data.exitCode).not.toBe(0);
     });
+
+    it('returns structured content matching the output schema', async () => {
+      const result = await injectRun({ command: 'echo', args: ['hello'] });
+
+      expect(z.object(injectRunOutputSchema).safeParse(result.structuredContent).success).toBe(
+        true
+      );
+      expect(result.structuredContent).toEqual(JSON.parse(result.content[0].text));
+    });
   });
 
   describe('secret masking', () => {
@@ -114,6 +124,69 @@ describe('injectRun', () => {
     });
   });
 
+  describe('derived secrets', () => {
+    it('injects resolved values', async () => {
+      mockPullSecrets.mockResolvedValue(
+        'DB_PASSWORD=s3cr3t\nDATABASE_URL=postgres://app:${DB_PASSWORD}@db/main'
+      );
+
+      const result = await injectRun({
+        command: process.execPath,
+        args: ['-e', 'process.stdout.write(String(process.env.DATABASE_URL.length))'],
+      });
+      const data = JSON.parse(result.content[0].text);
+
+      expect(data.exitCode).toBe(0);
+      expect(data.stdout).toBe(String('postgres://app:s3cr3t@db/main'.length));
+    });
+
+    it('refuses to run when derived secrets form a cycle', async () => {
+      mockPullSecrets.mockResolvedValue('A=${B}\nB=postgres://${A}/main');
+
+      const result = await injectRun({ command: 'echo', args: ['hello'] });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Circular reference: A -> B -> A');
+    });
+
+    it('passes values with a "${" that is not a reference through unchanged', async () => {
+      mockPullSecrets.mockResolvedValue(
+        "PS1='${debian_chroot:+($debian_chroot)}\\u@\\h$ '\nPRICE=${5}\nGREETING=hi \\${USER}"
+      );
+
+      // An escaped "\\${" is only unescaped in templates, so it reaches the command as stored
+      const expected = ['${debian_chroot:+($debian_chroot)}\\u@\\h$ ', '${5}', 'hi \\${USER}'];
+
+      // Output is masked, so the child compares the values itself
+      const result = await injectRun({
+        command: process.execPath,
+        args: [
+          '-e',
+          'const { PS1, PRICE, GREETING } = process.env; process.exit(JSON.stringify([PS1, PRICE, GREETING]) === process.argv[1] ? 0 : 1)',
+          JSON.stringify(expected),
+        ],
+      });
+      const data = JSON.parse(result.content[0].text);
+
+      expect(data.exitCode).toBe(0);
+    });
+
+    it('runs with undefined references kept as literal text and names the key', async () => {
+      mockPullSecrets.mockResolvedValue('LOG_DIR=${HOME}/logs\nAPI_KEY=secret');
+
+      const result = await injectRun({
+        command: process.execPath,
+        args: ['-e', 'process.exit(process.env.LOG_DIR === "${HOME}/logs" ? 0 : 1)'],
+      });
+      const data = JSON.parse(result.content[0].text);
+
+      expect(data.exitCode).toBe(0);
+      expect(data.warnings).toEqual([
+        'LOG_DIR references undefined secret HOME, kept as literal text (write \\${HOME} to mark it literal)',
+      ]);
+    });
+  });
+
   describe('timeout handling', () => {
     it('caps timeout at 5 minutes', async () => {
       // Request 10 minutes, should be capped at 5
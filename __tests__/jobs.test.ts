@@ -0,0 +1,369 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+
+const { mockGetToken, mockGetRepository, mockPullSecrets } = vi.hoisted(() => ({
+  mockGetToken: vi.fn(),
+  mockGetRepository: vi.fn(),
+  mockPullSecrets: vi.fn(),
+}));
+
+vi.mock('../src/utils/auth.js', () => ({
+  getToken: mockGetToken,
+}));
+
+vi.mock('../src/utils/git.js', () => ({
+  getRepository: mockGetRepository,
+}));
+
+vi.mock('../src/utils/api.js', () => ({
+  pullSecrets: mockPullSecrets,
+}));
+
+import { createJobRegistry, type JobRegistry } from '../src/utils/jobs.js';
+import { jobStart, jobStartOutputSchema } from '../src/tools/job-start.js';
+import { maskSecrets, partialSecretLength } from '../src/tools/inject-run.js';
+import { jobStatus, jobStatusOutputSchema } from '../src/tools/job-status.js';
+import { jobLogs, jobLogsOutputSchema } from '../src/tools/job-logs.js';
+import { jobStop, jobStopOutputSchema } from '../src/tools/job-stop.js';
+
+const node = process.execPath;
+
+// Prints three lines, then stays alive until stopped
+const SERVER_SCRIPT =
+  'console.log("line 1"); console.log("token=" + process.env.API_TOKEN); console.error("warn"); setInterval(() => {}, 1000);';
+
+async function waitFor(check: () => boolean, timeoutMs = 5000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for job');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+describe('job registry', () => {
+  let jobs: JobRegistry;
+
+  beforeEach(() => {
+    jobs = createJobRegistry();
+  });
+
+  afterEach(async () => {
+    await jobs.close();
+  });
+
+  it('collects output lines until the job exits', async () => {
+    const job = await jobs.start({
+      command: node,
+      args: ['-e', 'console.log("a\\nb"); process.stdout.write("c"); process.exit(3)'],
+      environment: 'development',
+      secrets: {},
+      mask: (text) => text,
+      partialSecretLength: () => 0,
+    });
+    expect(job.status).toBe('running');
+    expect(job.pid).toEqual(expect.any(Number));
+
+    await waitFor(() => jobs.get(job.id)?.status === 'exited');
+    const info = jobs.get(job.id)!;
+    expect(info.exitCode).toBe(3);
+    expect(info.endedAt).not.toBeNull();
+    // The unterminated last line is kept when the job ends
+    expect(info.lineCount).toBe(3);
+    expect(jobs.logs(job.id, {})!.output).toBe('a\nb\nc');
+  });
+
+  it('pages logs with offset, tail and limit', async () => {
+    const job = await jobs.start({
+      command: node,
+      args: ['-e', 'for (let i = 0; i < 10; i++) console.log("line " + i)'],
+      environment: 'development',
+      secrets: {},
+      mask: (text) => text,
+      partialSecretLength: () => 0,
+    });
+    await waitFor(() => jobs.get(job.id)?.status === 'exited');
+
+    const first = jobs.logs(job.id, { limit: 4 })!;
+    expect(first.output).toBe('line 0\nline 1\nline 2\nline 3');
+    expect(first).toMatchObject({ offset: 0, nextOffset: 4, total: 10, dropped: 0 });
+
+    const next = jobs.logs(job.id, { offset: first.nextOffset, limit: 4 })!;
+    expect(next.output).toBe('line 4\nline 5\nline 6\nline 7');
+
+    const tail = jobs.logs(job.id, { tail: 2 })!;
+    expect(tail.output).toBe('line 8\nline 9');
+    expect(tail).toMatchObject({ offset: 8, nextOffset: 10 });
+
+    // Reading past the end returns nothing new
+    expect(jobs.logs(job.id, { offset: 10 })!).toMatchObject({ output: '', nextOffset: 10 });
+  });
+
+  it('stops a running job', async () => {
+    const job = await jobs.start({
+      command: node,
+      args: ['-e', 'setInterval(() => {}, 1000)'],
+      environment: 'development',
+      secrets: {},
+      mask: (text) => text,
+      partialSecretLength: () => 0,
+    });
+
+    const stopped = await jobs.stop(job.id, 2000);
+    expect(stopped?.status).toBe('stopped');
+    expect(stopped?.signal).toBe('SIGTERM');
+    expect(() => process.kill(job.pid!, 0)).toThrow();
+  });
+
+  it('force kills a job that ignores SIGTERM', async () => {
+    const job = await jobs.start({
+      command: node,
+      args: [
+        '-e',
+        'process.on("SIGTERM", () => {}); console.log("ready"); setInterval(() => {}, 1000)',
+      ],
+      environment: 'development',
+      secrets: {},
+      mask: (text) => text,
+      partialSecretLength: () => 0,
+    });
+    // Wait until the handler is installed
+    await waitFor(() => jobs.get(job.id)!.lineCount > 0);
+
+    const stopped = await jobs.stop(job.id, 200);
+    expect(stopped?.status).toBe('stopped');
+    expect(stopped?.signal).toBe('SIGKILL');
+  });
+
+  it('rejects commands that cannot be started', async () => {
+    await expect(
+      jobs.start({
+        command: 'nonexistent-command-12345',
+        args: [],
+        environment: 'development',
+        secrets: {},
+        mask: (text) => text,
+        partialSecretLength: () => 0,
+      })
+    ).rejects.toThrow('Failed to execute command');
+    expect(jobs.list()).toEqual([]);
+  });
+
+  it('masks multiline secrets before splitting output into lines', async () => {
+    const secrets = { KEY: 'line-one\nline-two\nline-three' };
+    const job = await jobs.start({
+      command: node,
+      args: ['-e', 'console.error("start"); console.error(process.env.KEY)'],
+      environment: 'development',
+      secrets,
+      mask: (text) => maskSecrets(text, secrets),
+      partialSecretLength: (text) => partialSecretLength(text, secrets),
+    });
+    await waitFor(() => jobs.get(job.id)?.status === 'exited');
+
+    const output = jobs.logs(job.id, {})!.output;
+    expect(output).toBe('[stderr] start\n[stderr] ***REDACTED***');
+    for (const part of secrets.KEY.split('\n')) {
+      expect(output).not.toContain(part);
+    }
+
+    const last = jobs.logs(job.id, { tail: 1 })!.output;
+    expect(last).toBe('[stderr] ***REDACTED***');
+  });
+
+  it('masks secrets split across output chunks', async () => {
+    const secrets = { KEY: 'first-half-second-half' };
+    const job = await jobs.start({
+      command: node,
+      args: [
+        '-e',
+        'const key = process.env.KEY; process.stdout.write("key=" + key.slice(0, 10)); setTimeout(() => console.log(key.slice(10) + "!"), 200)',
+      ],
+      environment: 'development',
+      secrets,
+      mask: (text) => maskSecrets(text, secrets),
+      partialSecretLength: (text) => partialSecretLength(text, secrets),
+    });
+    await waitFor(() => jobs.get(job.id)?.status === 'exited');
+
+    expect(jobs.logs(job.id, {})!.output).toBe('key=***REDACTED***!');
+  });
+
+  it('logs progress output that only uses carriage returns while the job runs', async () => {
+    const job = await jobs.start({
+      command: node,
+      args: [
+        '-e',
+        'process.stdout.write("10%\\r50%\\r"); setTimeout(() => process.stdout.write("\\n100%\\r\\n"), 200); setInterval(() => {}, 1000)',
+      ],
+      environment: 'development',
+      secrets: {},
+      mask: (text) => text,
+      partialSecretLength: () => 0,
+    });
+
+    await waitFor(() => (jobs.get(job.id)?.lineCount ?? 0) >= 1);
+    expect(jobs.get(job.id)?.status).toBe('running');
+    expect(jobs.logs(job.id, {})!.output).toBe('10%');
+
+    // A "\r\n" split across chunks ends a single line
+    await waitFor(() => (jobs.get(job.id)?.lineCount ?? 0) >= 3);
+    expect(jobs.logs(job.id, {})!.output).toBe('10%\n50%\n100%');
+  });
+
+  it('cuts an unterminated line once it outgrows the line limit', async () => {
+    const job = await jobs.start({
+      command: node,
+      args: [
+        '-e',
+        'process.stdout.write("x".repeat(25000)); setTimeout(() => console.log("y".repeat(10) + "\\nnext"), 200); setInterval(() => {}, 1000)',
+      ],
+      environment: 'development',
+      secrets: {},
+      mask: (text) => text,
+      partialSecretLength: () => 0,
+    });
+
+    await waitFor(() => (jobs.get(job.id)?.lineCount ?? 0) >= 2);
+    const lines = jobs.logs(job.id, {})!.output.split('\n');
+    expect(lines).toEqual(['x'.repeat(10000) + '…', 'next']);
+  });
+
+  it('returns undefined for unknown jobs', async () => {
+    expect(jobs.get('job_missing')).toBeUndefined();
+    expect(jobs.logs('job_missing', {})).toBeUndefined();
+    expect(await jobs.stop('job_missing')).toBeUndefined();
+  });
+});
+
+describe('job tools', () => {
+  let jobs: JobRegistry;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetToken.mockResolvedValue('mock-token');
+    mockGetRepository.mockReturnValue('owner/repo');
+    mockPullSecrets.mockResolvedValue('API_TOKEN=sk-abc123xyz\nDB_HOST=localhost');
+    jobs = createJobRegistry();
+  });
+
+  afterEach(async () => {
+    await jobs.close();
+  });
+
+  it('starts a job, reads masked logs and stops it', async () => {
+    const started = await jobStart({ command: node, args: ['-e', SERVER_SCRIPT] }, jobs);
+    expect(started.isError).toBeFalsy();
+    const start = z.object(jobStartOutputSchema).parse(started.structuredContent);
+    expect(start.status).toBe('running');
+    expect(start.environment).toBe('development');
+    expect(start.secretsInjected).toBe(2);
+
+    await waitFor(() => jobs.get(start.jobId)!.lineCount >= 3);
+
+    const status = z
+      .object(jobStatusOutputSchema)
+      .parse((await jobStatus({ jobId: start.jobId }, jobs)).structuredContent);
+    expect(status.running).toBe(1);
+    expect(status.jobs[0].id).toBe(start.jobId);
+
+    const logsResult = await jobLogs({ jobId: start.jobId }, jobs);
+    const logs = z.object(jobLogsOutputSchema).parse(logsResult.structuredContent);
+    expect(logs.output).toContain('line 1');
+    expect(logs.output).toContain('token=***REDACTED***');
+    expect(logs.output).toContain('[stderr] warn');
+    expect(logsResult.content[0].text).not.toContain('sk-abc123xyz');
+
+    const stopped = z
+      .object(jobStopOutputSchema)
+      .parse((await jobStop({ jobId: start.jobId }, jobs)).structuredContent);
+    expect(stopped.job.status).toBe('stopped');
+    expect(stopped.message).toContain('Stopped job');
+
+    // Stopping again is harmless
+    const again = await jobStop({ jobId: start.jobId }, jobs);
+    expect(again.isError).toBeFalsy();
+    expect(again.structuredContent?.message).toContain('already stopped');
+  });
+
+  it('masks multiline secrets in job logs', async () => {
+    mockPullSecrets.mockResolvedValue(
+      'PRIVATE_KEY="-----BEGIN KEY-----\\nabc123\\n-----END KEY-----"'
+    );
+    const started = await jobStart(
+      { command: node, args: ['-e', 'console.error(process.env.PRIVATE_KEY)'] },
+      jobs
+    );
+    const start = z.object(jobStartOutputSchema).parse(started.structuredContent);
+    await waitFor(() => jobs.get(start.jobId)!.status === 'exited');
+
+    for (const range of [{}, { tail: 1 }]) {
+      const logsResult = await jobLogs({ jobId: start.jobId, ...range }, jobs);
+      const logs = z.object(jobLogsOutputSchema).parse(logsResult.structuredContent);
+      expect(logs.output).toBe('[stderr] ***REDACTED***');
+      expect(logsResult.content[0].text).not.toContain('abc123');
+    }
+  });
+
+  it('lists every job when no ID is given', async () => {
+    await jobStart({ command: node, args: ['-e', SERVER_SCRIPT] }, jobs);
+    await jobStart({ command: node, args: ['-e', SERVER_SCRIPT], environment: 'staging' }, jobs);
+
+    const status = z
+      .object(jobStatusOutputSchema)
+      .parse((await jobStatus({}, jobs)).structuredContent);
+    expect(status.jobs).toHaveLength(2);
+    expect(status.jobs.map((job) => job.environment).sort()).toEqual(['development', 'staging']);
+  });
+
+  it('rejects an empty command', async () => {
+    const result = await jobStart({ command: ' ' }, jobs);
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('command is required');
+    expect(mockPullSecrets).not.toHaveBeenCalled();
+  });
+
+  it('reports commands that cannot be started', async () => {
+    const result = await jobStart({ command: 'nonexistent-command-12345' }, jobs);
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Error starting job');
+  });
+
+  it('does not start a job when secrets cannot be resolved', async () => {
+    mockPullSecrets.mockResolvedValue('DATABASE_URL=${DB_URL}\nDB_URL=${DATABASE_URL}');
+    const result = await jobStart({ command: node, args: ['-e', SERVER_SCRIPT] }, jobs);
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Error resolving secrets');
+    expect(jobs.list()).toEqual([]);
+  });
+
+  it('starts a job with undefined references kept literal and warns about them', async () => {
+    mockPullSecrets.mockResolvedValue('LOG_DIR=${HOME}/logs');
+    const started = await jobStart({ command: node, args: ['-e', SERVER_SCRIPT] }, jobs);
+    const start = z.object(jobStartOutputSchema).parse(started.structuredContent);
+    expect(start.status).toBe('running');
+    expect(start.warnings).toEqual([
+      'LOG_DIR references undefined secret HOME, kept as literal text (write \\${HOME} to mark it literal)',
+    ]);
+  });
+
+  it('rejects invalid log ranges', async () => {
+    const both = await jobLogs({ jobId: 'job_x', offset: 0, tail: 5 }, jobs);
+    expect(both.isError).toBe(true);
+    expect(both.content[0].text).toContain('cannot be used together');
+
+    const negative = await jobLogs({ jobId: 'job_x', tail: -1 }, jobs);
+    expect(negative.isError).toBe(true);
+    expect(negative.content[0].text).toContain('tail must be a non-negative integer');
+  });
+
+  it('reports unknown jobs', async () => {
+    for (const result of [
+      await jobStatus({ jobId: 'job_missing' }, jobs),
+      await jobLogs({ jobId: 'job_missing' }, jobs),
+      await jobStop({ jobId: 'job_missing' }, jobs),
+    ]) {
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Job "job_missing" not found');
+    }
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { filterKeys, matchesAnyPattern } from '../src/utils/patterns.js';
+
+describe('matchesAnyPattern', () => {
+  it('matches exact names', () => {
+    expect(matchesAnyPattern('API_KEY', ['API_KEY'])).toBe(true);
+    expect(matchesAnyPattern('API_KEY_2', ['API_KEY'])).toBe(false);
+  });
+
+  it('matches wildcards', () => {
+    expect(matchesAnyPattern('STRIPE_SECRET_KEY', ['STRIPE_*'])).toBe(true);
+    expect(matchesAnyPattern('DATABASE_URL', ['*_URL'])).toBe(true);
+    expect(matchesAnyPattern('DATABASE_URL', ['*_KEY'])).toBe(false);
+  });
+});
+
+describe('filterKeys', () => {
+  const keys = ['API_KEY', 'DATABASE_URL', 'REDIS_URL'];
+
+  it('keeps every key without filters', () => {
+    expect(filterKeys(keys)).toEqual(keys);
+    expect(filterKeys(keys, [])).toEqual(keys);
+  });
+
+  it('applies include then exclude', () => {
+    expect(filterKeys(keys, ['*_URL'])).toEqual(['DATABASE_URL', 'REDIS_URL']);
+    expect(filterKeys(keys, ['*_URL'], ['REDIS_*'])).toEqual(['DATABASE_URL']);
+    expect(filterKeys(keys, undefined, ['API_KEY'])).toEqual(['DATABASE_URL', 'REDIS_URL']);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { ToolPolicy } from '../src/utils/config.js';
+import { checkToolPolicy, createToolRegistrar } from '../src/utils/policy.js';
+
+const OPEN: ToolPolicy = { readOnly: false, deny: [] };
+
+async function createClient(policy: ToolPolicy): Promise<Client> {
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  const { registerTool, assertKnownTools } = createToolRegistrar(server, policy);
+
+  registerTool(
+    'read_tool',
+    { description: 'Reads things', annotations: { readOnlyHint: true } },
+    async () => ({ content: [{ type: 'text', text: 'read' }] })
+  );
+  registerTool(
+    'write_tool',
+    { description: 'Writes things', annotations: { readOnlyHint: false, destructiveHint: true } },
+    async () => ({ content: [{ type: 'text', text: 'written' }] })
+  );
+  assertKnownTools();
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  await client.connect(clientTransport);
+  return client;
+}
+
+describe('checkToolPolicy', () => {
+  it('allows everything with an open policy', () => {
+    expect(checkToolPolicy(OPEN, 'keyway_set_secret').allowed).toBe(true);
+  });
+
+  it('refuses tools without readOnlyHint in read-only mode', () => {
+    const policy = { ...OPEN, readOnly: true };
+
+    expect(checkToolPolicy(policy, 'keyway_diff', { readOnlyHint: true }).allowed).toBe(true);
+    expect(checkToolPolicy(policy, 'keyway_set_secret', { readOnlyHint: false }).allowed).toBe(
+      false
+    );
+    expect(checkToolPolicy(policy, 'keyway_other').allowed).toBe(false);
+  });
+
+  it('refuses tools missing from the allowlist', () => {
+    const policy = { ...OPEN, allow: ['keyway_diff'] };
+
+    expect(checkToolPolicy(policy, 'keyway_diff').allowed).toBe(true);
+    expect(checkToolPolicy(policy, 'keyway_scan').allowed).toBe(false);
+  });
+
+  it('refuses tools in the denylist', () => {
+    const policy = { ...OPEN, deny: ['keyway_scan'] };
+
+    expect(checkToolPolicy(policy, 'keyway_scan')).toEqual({
+      allowed: false,
+      reason: 'it is excluded by the server configuration',
+    });
+  });
+});
+
+describe('createToolRegistrar', () => {
+  it('registers allowed tools normally', async () => {
+    const client = await createClient(OPEN);
+
+    const result = await client.callTool({ name: 'write_tool', arguments: {} });
+    expect(result.isError).toBeFalsy();
+    expect(result.content).toEqual([{ type: 'text', text: 'written' }]);
+  });
+
+  it('returns a policy error for disallowed tools', async () => {
+    const client = await createClient({ ...OPEN, readOnly: true });
+
+    const result = await client.callTool({ name: 'write_tool', arguments: {} });
+    expect(result.isError).toBe(true);
+    expect((result.content as { text: string }[])[0].text).toContain(
+      'disabled by server policy because the server is running in read-only mode'
+    );
+
+    const read = await client.callTool({ name: 'read_tool', arguments: {} });
+    expect(read.isError).toBeFalsy();
+  });
+
+  it('marks disallowed tools in the tool list', async () => {
+    const client = await createClient({ ...OPEN, deny: ['write_tool'] });
+
+    const { tools } = await client.listTools();
+    const writeTool = tools.find((t) => t.name === 'write_tool');
+    expect(writeTool?.description).toContain('Disabled by server policy');
+    expect(writeTool?.annotations?.readOnlyHint).toBe(true);
+  });
+
+  it('rejects unknown tool names in the policy', async () => {
+    await expect(createClient({ ...OPEN, deny: ['wrtie_tool'] })).rejects.toThrow(
+      'Unknown tool in tool policy: wrtie_tool'
+    );
+  });
+});
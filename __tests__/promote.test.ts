@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseEnvContent } from '../src/utils/env-parser.js';
+
+// Mock the utils
+vi.mock('../src/utils/auth.js', () => ({
+  getToken: vi.fn().mockResolvedValue('mock-token'),
+}));
+
+vi.mock('../src/utils/git.js', () => ({
+  getRepository: vi.fn().mockReturnValue('owner/repo'),
+}));
+
+// Mock API with per-environment contents
+const vault: Record<string, string> = {};
+const mockPullSecrets = vi.fn();
+const mockPullSecretsOrEmpty = vi.fn();
+const mockPushSecrets = vi.fn();
+vi.mock('../src/utils/api.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/utils/api.js')>()),
+  pullSecrets: mockPullSecrets,
+  pullSecretsOrEmpty: mockPullSecretsOrEmpty,
+  pushSecrets: mockPushSecrets,
+}));
+
+describe('promote', () => {
+  beforeEach(async () => {
+    const { APIError } = await import('../src/utils/api.js');
+    vi.clearAllMocks();
+    vault.staging =
+      'STRIPE_KEY=sk_test_new\nSTRIPE_WEBHOOK=whsec_same\nSTRIPE_PRICE=price_1\nDEBUG_TOKEN=dbg';
+    vault.production = 'STRIPE_KEY=sk_live_old\nSTRIPE_WEBHOOK=whsec_same\nPROD_ONLY=keep';
+    mockPullSecrets.mockImplementation(async (_repo: string, env: string) => {
+      if (!(env in vault)) throw new APIError(404, 'Not Found', 'Not found');
+      return vault[env];
+    });
+    mockPullSecretsOrEmpty.mockImplementation(async (_repo: string, env: string) =>
+      env in vault ? parseEnvContent(vault[env]) : {}
+    );
+    mockPushSecrets.mockResolvedValue({});
+  });
+
+  it('copies missing keys and skips existing ones by default', async () => {
+    const { promote } = await import('../src/tools/promote.js');
+    const response = await promote({ source: 'staging', target: 'production', keys: ['STRIPE_*'] });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.create).toEqual(['STRIPE_PRICE']);
+    expect(data.overwrite).toEqual([]);
+    expect(data.skipped.map((e: { key: string }) => e.key)).toEqual(['STRIPE_KEY']);
+    expect(data.unchanged).toEqual(['STRIPE_WEBHOOK']);
+    expect(mockPushSecrets).toHaveBeenCalledWith(
+      'owner/repo',
+      'production',
+      {
+        STRIPE_KEY: 'sk_live_old',
+        STRIPE_WEBHOOK: 'whsec_same',
+        PROD_ONLY: 'keep',
+        STRIPE_PRICE: 'price_1',
+      },
+      'mock-token'
+    );
+  });
+
+  it('overwrites differing keys with the overwrite policy', async () => {
+    const { promote } = await import('../src/tools/promote.js');
+    const response = await promote({
+      source: 'staging',
+      target: 'production',
+      keys: ['STRIPE_*'],
+      policy: 'overwrite',
+    });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.overwrite).toEqual([
+      { key: 'STRIPE_KEY', preview1: '**ew (11 chars)', preview2: '**ld (11 chars)' },
+    ]);
+    expect(data.stats).toEqual({ created: 1, overwritten: 1, skipped: 0, unchanged: 1 });
+    expect(mockPushSecrets.mock.calls[0][2].STRIPE_KEY).toBe('sk_test_new');
+    expect(response.content[0].text).not.toContain('sk_test_new');
+  });
+
+  it('refuses the promotion with only-missing when a key differs', async () => {
+    const { promote } = await import('../src/tools/promote.js');
+    const response = await promote({
+      source: 'staging',
+      target: 'production',
+      keys: ['STRIPE_*'],
+      policy: 'only-missing',
+    });
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('STRIPE_KEY already exist');
+    expect(mockPushSecrets).not.toHaveBeenCalled();
+  });
+
+  it('returns the plan without writing in dry run mode', async () => {
+    const { promote } = await import('../src/tools/promote.js');
+    const response = await promote({
+      source: 'staging',
+      target: 'production',
+      keys: ['*'],
+      dryRun: true,
+    });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.dryRun).toBe(true);
+    expect(data.create).toEqual(['DEBUG_TOKEN', 'STRIPE_PRICE']);
+    expect(data.message).toContain('Dry run');
+    expect(mockPushSecrets).not.toHaveBeenCalled();
+  });
+
+  it('reports patterns that match nothing in the source', async () => {
+    const { promote } = await import('../src/tools/promote.js');
+    const response = await promote({
+      source: 'staging',
+      target: 'development',
+      keys: ['STRIPE_PRICE', 'MISSING_KEY', 'AWS_*'],
+    });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.unmatched).toEqual(['MISSING_KEY', 'AWS_*']);
+    expect(mockPushSecrets).toHaveBeenCalledWith(
+      'owner/repo',
+      'development',
+      { STRIPE_PRICE: 'price_1' },
+      'mock-token'
+    );
+  });
+
+  it('changes nothing when a protected target is refused', async () => {
+    const refusal = { content: [{ type: 'text' as const, text: 'refused' }], isError: true };
+    const guard = { isProtected: () => true, confirmWrite: vi.fn().mockResolvedValue(refusal) };
+
+    const { promote } = await import('../src/tools/promote.js');
+    const response = await promote(
+      { source: 'staging', target: 'production', keys: ['STRIPE_*'], policy: 'overwrite' },
+      guard
+    );
+
+    expect(response).toBe(refusal);
+    expect(guard.confirmWrite).toHaveBeenCalledWith({
+      repository: 'owner/repo',
+      environment: 'production',
+      keys: [
+        { name: 'STRIPE_PRICE', action: 'create' },
+        { name: 'STRIPE_KEY', action: 'overwrite' },
+      ],
+    });
+    expect(mockPushSecrets).not.toHaveBeenCalled();
+  });
+
+  it('normalizes environment names before reading, confirming and writing', async () => {
+    const guard = { isProtected: () => true, confirmWrite: vi.fn().mockResolvedValue(null) };
+
+    const { promote } = await import('../src/tools/promote.js');
+    const response = await promote(
+      { source: 'Staging', target: 'prod', keys: ['STRIPE_*'] },
+      guard
+    );
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data).toMatchObject({
+      source: 'staging',
+      target: 'production',
+      create: ['STRIPE_PRICE'],
+    });
+    expect(mockPullSecrets).toHaveBeenCalledWith('owner/repo', 'staging', 'mock-token');
+    expect(guard.confirmWrite).toHaveBeenCalledWith(
+      expect.objectContaining({ environment: 'production' })
+    );
+    expect(mockPushSecrets).toHaveBeenCalledWith(
+      'owner/repo',
+      'production',
+      expect.any(Object),
+      'mock-token'
+    );
+  });
+
+  it('validates its arguments', async () => {
+    const { promote } = await import('../src/tools/promote.js');
+
+    expect((await promote({ source: 'staging', target: 'staging', keys: ['*'] })).isError).toBe(
+      true
+    );
+    expect((await promote({ source: 'Staging', target: 'stg', keys: ['*'] })).isError).toBe(true);
+    expect((await promote({ source: 'staging', target: 'production', keys: [] })).isError).toBe(
+      true
+    );
+    expect(mockPullSecrets).not.toHaveBeenCalled();
+    expect(mockPullSecretsOrEmpty).not.toHaveBeenCalled();
+  });
+
+  it('pushes nothing when the target cannot be read', async () => {
+    const { APIError } = await import('../src/utils/api.js');
+    mockPullSecretsOrEmpty.mockRejectedValue(new APIError(500, 'Error', 'Internal server error'));
+
+    const { promote } = await import('../src/tools/promote.js');
+    const response = await promote({
+      source: 'staging',
+      target: 'production',
+      keys: ['STRIPE_*'],
+      policy: 'overwrite',
+    });
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('Internal server error');
+    expect(mockPushSecrets).not.toHaveBeenCalled();
+  });
+
+  it('returns an error when the source cannot be read', async () => {
+    const { promote } = await import('../src/tools/promote.js');
+    const response = await promote({ source: 'preview', target: 'production', keys: ['*'] });
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('Error promoting secrets: Not found');
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { investigateLeak, onboardRepo, preDeployChecklist } from '../src/prompts/workflows.js';
+
+function promptText(result: ReturnType<typeof preDeployChecklist>): string {
+  const content = result.messages[0].content;
+  return content.type === 'text' ? content.text : '';
+}
+
+describe('preDeployChecklist', () => {
+  it('chains validate, diff, scan and generate for the environment', () => {
+    const text = promptText(preDeployChecklist({ environment: 'production' }));
+
+    expect(text).toContain('`keyway_validate` with environment "production"');
+    expect(text).toContain('`keyway_diff` with env1 "staging" and env2 "production"');
+    expect(text).toContain('`keyway_scan`');
+    expect(text).toContain('`keyway_generate`');
+  });
+
+  it('uses the provided baseline', () => {
+    const text = promptText(preDeployChecklist({ environment: 'production', baseline: 'qa' }));
+
+    expect(text).toContain('env1 "qa"');
+  });
+
+  it('skips the diff step when baseline equals the environment', () => {
+    const text = promptText(preDeployChecklist({ environment: 'staging' }));
+
+    expect(text).not.toContain('keyway_diff');
+    expect(text).toMatch(/^3\. /m);
+    expect(text).not.toMatch(/^4\. /m);
+  });
+});
+
+describe('onboardRepo', () => {
+  it('defaults to the development environment', () => {
+    const result = onboardRepo({});
+
+    expect(result.description).toBe('Onboard this repo to Keyway');
+    expect(promptText(result)).toContain('environment "development"');
+  });
+});
+
+describe('investigateLeak', () => {
+  it('mentions the leaked secret and scan path', () => {
+    const text = promptText(investigateLeak({ name: 'STRIPE_KEY', path: 'src' }));
+
+    expect(text).toContain('"STRIPE_KEY"');
+    expect(text).toContain('`keyway_scan` with path "src"');
+  });
+
+  it('works without arguments', () => {
+    const text = promptText(investigateLeak({}));
+
+    expect(text).toContain('any leaked secret');
+    expect(text).toContain('Call `keyway_scan` and list');
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ElicitRequestSchema, type ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { createWriteGuard, type ProtectedWrite } from '../src/utils/protection.js';
+
+const WRITE: ProtectedWrite = {
+  repository: 'owner/repo',
+  environment: 'production',
+  keys: [{ name: 'DATABASE_URL', action: 'overwrite' }],
+};
+
+/**
+ * Connect a low-level server to a client, optionally answering elicitation requests
+ */
+async function connect(onElicit?: (message: string) => ElicitResult): Promise<Server> {
+  const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} });
+  const client = new Client(
+    { name: 'test-client', version: '1.0.0' },
+    { capabilities: onElicit ? { elicitation: { form: {} } } : {} }
+  );
+
+  if (onElicit) {
+    client.setRequestHandler(ElicitRequestSchema, async (request) =>
+      onElicit(request.params.message)
+    );
+  }
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  return server;
+}
+
+describe('createWriteGuard', () => {
+  it('protects configured environments case-insensitively', () => {
+    const guard = createWriteGuard(new Server({ name: 't', version: '1' }), ['production']);
+
+    expect(guard.isProtected('production')).toBe(true);
+    expect(guard.isProtected('Production')).toBe(true);
+    expect(guard.isProtected('staging')).toBe(false);
+  });
+
+  it('lets unprotected writes through without asking', async () => {
+    const onElicit = vi.fn();
+    const server = await connect(onElicit);
+    const guard = createWriteGuard(server, ['production']);
+
+    expect(await guard.confirmWrite({ ...WRITE, environment: 'staging' })).toBeNull();
+    expect(onElicit).not.toHaveBeenCalled();
+  });
+
+  it('proceeds when the user confirms', async () => {
+    const onElicit = vi.fn().mockReturnValue({ action: 'accept', content: { confirm: true } });
+    const server = await connect(onElicit);
+    const guard = createWriteGuard(server, ['production']);
+
+    expect(await guard.confirmWrite(WRITE)).toBeNull();
+
+    const message = onElicit.mock.calls[0][0] as string;
+    expect(message).toContain('"production"');
+    expect(message).toContain('overwrite DATABASE_URL');
+  });
+
+  it('lists warnings in the confirmation prompt', async () => {
+    const onElicit = vi.fn().mockReturnValue({ action: 'accept', content: { confirm: true } });
+    const server = await connect(onElicit);
+    const guard = createWriteGuard(server, ['production']);
+
+    await guard.confirmWrite({ ...WRITE, warnings: ['URL references HOST'] });
+
+    expect(onElicit.mock.calls[0][0]).toContain('Warning: URL references HOST');
+  });
+
+  it('refuses when the user declines', async () => {
+    const server = await connect(() => ({ action: 'decline' }));
+    const guard = createWriteGuard(server, ['production']);
+
+    const result = await guard.confirmWrite(WRITE);
+    expect(result?.isError).toBe(true);
+    expect(result?.content[0]).toMatchObject({ text: expect.stringContaining('declined') });
+  });
+
+  it('refuses when the user accepts without confirming', async () => {
+    const server = await connect(() => ({ action: 'accept', content: { confirm: false } }));
+    const guard = createWriteGuard(server, ['production']);
+
+    expect((await guard.confirmWrite(WRITE))?.isError).toBe(true);
+  });
+
+  it('refuses when the client does not support elicitation', async () => {
+    const server = await connect();
+    const guard = createWriteGuard(server, ['production']);
+
+    const result = await guard.confirmWrite(WRITE);
+    expect(result?.isError).toBe(true);
+    expect(result?.content[0]).toMatchObject({
+      text: expect.stringContaining('does not support confirmation prompts'),
+    });
+  });
+});
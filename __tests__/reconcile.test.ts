@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseEnvContent } from '../src/utils/env-parser.js';
+
+// Mock the utils
+vi.mock('../src/utils/auth.js', () => ({
+  getToken: vi.fn().mockResolvedValue('mock-token'),
+}));
+
+vi.mock('../src/utils/git.js', () => ({
+  getRepository: vi.fn().mockReturnValue('owner/repo'),
+}));
+
+// Mock API with per-environment contents
+const vault: Record<string, string> = {};
+const mockPullSecrets = vi.fn();
+const mockPullSecretsOrEmpty = vi.fn();
+const mockPushSecrets = vi.fn();
+vi.mock('../src/utils/api.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/utils/api.js')>()),
+  pullSecrets: mockPullSecrets,
+  pullSecretsOrEmpty: mockPullSecretsOrEmpty,
+  pushSecrets: mockPushSecrets,
+}));
+
+describe('reconcile', () => {
+  beforeEach(async () => {
+    const { APIError } = await import('../src/utils/api.js');
+    vi.clearAllMocks();
+    vault.staging = 'SHARED=same\nCHANGED=staging-value\nNEW_KEY=new';
+    vault.production = 'SHARED=same\nCHANGED=prod-value\nLEGACY=old';
+    mockPullSecrets.mockImplementation(async (_repo: string, env: string) => {
+      if (!(env in vault)) throw new APIError(404, 'Not Found', 'Not found');
+      return vault[env];
+    });
+    mockPullSecretsOrEmpty.mockImplementation(async (_repo: string, env: string) =>
+      env in vault ? parseEnvContent(vault[env]) : {}
+    );
+    mockPushSecrets.mockResolvedValue({});
+  });
+
+  it('only adds missing keys by default', async () => {
+    const { reconcile } = await import('../src/tools/reconcile.js');
+    const response = await reconcile({
+      env1: 'staging',
+      env2: 'production',
+      direction: 'env1-to-env2',
+    });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.source).toBe('staging');
+    expect(data.target).toBe('production');
+    expect(data.added).toEqual(['NEW_KEY']);
+    expect(data.updated).toEqual([]);
+    expect(data.deleted).toEqual([]);
+    expect(data.before).toMatchObject({ onlyInEnv1: 1, onlyInEnv2: 1, different: 1, same: 1 });
+    expect(data.after).toMatchObject({ onlyInEnv1: 0, onlyInEnv2: 1, different: 1, same: 2 });
+    expect(mockPushSecrets).toHaveBeenCalledWith(
+      'owner/repo',
+      'production',
+      { SHARED: 'same', CHANGED: 'prod-value', LEGACY: 'old', NEW_KEY: 'new' },
+      'mock-token'
+    );
+  });
+
+  it('applies every category when requested', async () => {
+    const { reconcile } = await import('../src/tools/reconcile.js');
+    const response = await reconcile({
+      env1: 'staging',
+      env2: 'production',
+      direction: 'env1-to-env2',
+      copyDifferent: true,
+      deleteExtra: true,
+    });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.after).toEqual({
+      totalEnv1: 3,
+      totalEnv2: 3,
+      onlyInEnv1: 0,
+      onlyInEnv2: 0,
+      different: 0,
+      same: 3,
+    });
+    expect(mockPushSecrets).toHaveBeenCalledWith(
+      'owner/repo',
+      'production',
+      { SHARED: 'same', CHANGED: 'staging-value', NEW_KEY: 'new' },
+      'mock-token'
+    );
+    expect(response.content[0].text).not.toContain('staging-value');
+  });
+
+  it('reverses source and target with env2-to-env1', async () => {
+    const { reconcile } = await import('../src/tools/reconcile.js');
+    const response = await reconcile({
+      env1: 'stg',
+      env2: 'prod',
+      direction: 'env2-to-env1',
+    });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.source).toBe('production');
+    expect(data.target).toBe('staging');
+    expect(data.added).toEqual(['LEGACY']);
+    expect(mockPushSecrets.mock.calls[0][1]).toBe('staging');
+  });
+
+  it('returns the plan without writing in dry run mode', async () => {
+    const { reconcile } = await import('../src/tools/reconcile.js');
+    const response = await reconcile({
+      env1: 'staging',
+      env2: 'production',
+      direction: 'env1-to-env2',
+      deleteExtra: true,
+      dryRun: true,
+    });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.plan.onlyInEnv2).toEqual(['LEGACY']);
+    expect(data.deleted).toEqual(['LEGACY']);
+    expect(data.message).toContain('Dry run');
+    expect(mockPushSecrets).not.toHaveBeenCalled();
+  });
+
+  it('changes nothing when a protected target is refused', async () => {
+    const refusal = { content: [{ type: 'text' as const, text: 'refused' }], isError: true };
+    const guard = { isProtected: () => true, confirmWrite: vi.fn().mockResolvedValue(refusal) };
+
+    const { reconcile } = await import('../src/tools/reconcile.js');
+    const response = await reconcile(
+      { env1: 'staging', env2: 'production', direction: 'env1-to-env2', deleteExtra: true },
+      guard
+    );
+
+    expect(response).toBe(refusal);
+    expect(guard.confirmWrite.mock.calls[0][0].keys).toEqual([
+      { name: 'NEW_KEY', action: 'create' },
+      { name: 'LEGACY', action: 'delete' },
+    ]);
+    expect(mockPushSecrets).not.toHaveBeenCalled();
+  });
+
+  it('validates its arguments', async () => {
+    const { reconcile } = await import('../src/tools/reconcile.js');
+
+    const same = await reconcile({ env1: 'prod', env2: 'production', direction: 'env1-to-env2' });
+    expect(same.isError).toBe(true);
+    expect(same.content[0].text).toContain('itself');
+
+    const direction = await reconcile({
+      env1: 'staging',
+      env2: 'production',
+      direction: 'sideways' as 'env1-to-env2',
+    });
+    expect(direction.isError).toBe(true);
+    expect(mockPullSecrets).not.toHaveBeenCalled();
+    expect(mockPullSecretsOrEmpty).not.toHaveBeenCalled();
+  });
+
+  it('pushes nothing when the target cannot be read', async () => {
+    const { APIError } = await import('../src/utils/api.js');
+    mockPullSecretsOrEmpty.mockRejectedValue(new APIError(500, 'Error', 'Internal server error'));
+
+    const { reconcile } = await import('../src/tools/reconcile.js');
+    const response = await reconcile({
+      env1: 'staging',
+      env2: 'production',
+      direction: 'env1-to-env2',
+    });
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('Internal server error');
+    expect(mockPushSecrets).not.toHaveBeenCalled();
+  });
+
+  it('returns an error when the source cannot be read', async () => {
+    const { reconcile } = await import('../src/tools/reconcile.js');
+    const response = await reconcile({
+      env1: 'preview',
+      env2: 'production',
+      direction: 'env1-to-env2',
+    });
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('Error reconciling environments: Not found');
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+// Mock the utils
+vi.mock('../src/utils/auth.js', () => ({
+  getToken: vi.fn().mockResolvedValue('mock-token'),
+}));
+
+vi.mock('../src/utils/git.js', () => ({
+  getRepository: vi.fn().mockReturnValue('owner/repo'),
+}));
+
+// Mock API with per-environment contents
+const vault: Record<string, string> = {};
+const mockGetVaultEnvironments = vi.fn();
+const mockPullSecrets = vi.fn();
+const mockPushSecrets = vi.fn();
+vi.mock('../src/utils/api.js', () => ({
+  getVaultEnvironments: mockGetVaultEnvironments,
+  pullSecrets: mockPullSecrets,
+  pushSecrets: mockPushSecrets,
+}));
+
+describe('renameSecret', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vault.development = 'DB_URL=postgres://dev\nAPI_KEY=dev-key';
+    vault.staging = 'API_KEY=staging-key';
+    vault.production = 'DB_URL=postgres://prod\nAPI_KEY=prod-key';
+    mockGetVaultEnvironments.mockResolvedValue(['development', 'staging', 'production']);
+    mockPullSecrets.mockImplementation(async (_repo: string, env: string) => vault[env]);
+    mockPushSecrets.mockResolvedValue({});
+  });
+
+  it('renames the key in every environment that has it', async () => {
+    const { renameSecret } = await import('../src/tools/rename-secret.js');
+    const response = await renameSecret({ from: 'DB_URL', to: 'DATABASE_URL' });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(response.isError).toBeFalsy();
+    expect(data.renamed).toEqual(['development', 'production']);
+    expect(data.skipped).toEqual(['staging']);
+    expect(data.updatedReferences).toEqual([]);
+    expect(data.references).toBeUndefined();
+    expect(JSON.stringify(data)).not.toContain('postgres://');
+
+    expect(mockPushSecrets).toHaveBeenCalledTimes(2);
+    expect(mockPushSecrets).toHaveBeenCalledWith(
+      'owner/repo',
+      'production',
+      { DATABASE_URL: 'postgres://prod', API_KEY: 'prod-key' },
+      'mock-token'
+    );
+  });
+
+  it('rewrites references to the old name in derived secrets', async () => {
+    vault.development =
+      'DB_PASSWORD=pw\nDATABASE_URL=postgres://u:${DB_PASSWORD}@db/${DB_PASSWORD:raw}\nNOTE=\\${DB_PASSWORD}';
+    const guard = { isProtected: () => true, confirmWrite: vi.fn().mockResolvedValue(null) };
+
+    const { renameSecret } = await import('../src/tools/rename-secret.js');
+    const response = await renameSecret({ from: 'DB_PASSWORD', to: 'DATABASE_PASSWORD' }, guard);
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.updatedReferences).toEqual(['DATABASE_URL']);
+    expect(data.message).toContain('Updated references to DB_PASSWORD in DATABASE_URL');
+    expect(guard.confirmWrite.mock.calls[0][0].keys).toContainEqual({
+      name: 'DATABASE_URL',
+      action: 'overwrite',
+    });
+    expect(mockPushSecrets).toHaveBeenCalledTimes(1);
+    expect(mockPushSecrets).toHaveBeenCalledWith(
+      'owner/repo',
+      'development',
+      {
+        DATABASE_PASSWORD: 'pw',
+        DATABASE_URL: 'postgres://u:${DATABASE_PASSWORD}@db/${DATABASE_PASSWORD:raw}',
+        NOTE: '\\${DB_PASSWORD}',
+      },
+      'mock-token'
+    );
+  });
+
+  it('rolls back renamed environments when one fails', async () => {
+    mockPushSecrets.mockResolvedValueOnce({}).mockRejectedValueOnce(new Error('Forbidden'));
+
+    const { renameSecret } = await import('../src/tools/rename-secret.js');
+    const response = await renameSecret({ from: 'DB_URL', to: 'DATABASE_URL' });
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('"production": Forbidden');
+    expect(response.content[0].text).toContain('Rolled back "development"');
+    expect(mockPushSecrets).toHaveBeenLastCalledWith(
+      'owner/repo',
+      'development',
+      { DB_URL: 'postgres://dev', API_KEY: 'dev-key' },
+      'mock-token'
+    );
+  });
+
+  it('reports environments whose rollback failed', async () => {
+    mockPushSecrets
+      .mockResolvedValueOnce({})
+      .mockRejectedValueOnce(new Error('Forbidden'))
+      .mockRejectedValueOnce(new Error('Network error'));
+
+    const { renameSecret } = await import('../src/tools/rename-secret.js');
+    const response = await renameSecret({ from: 'DB_URL', to: 'DATABASE_URL' });
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('Rollback failed for "development"');
+  });
+
+  it('changes nothing when an environment cannot be read', async () => {
+    mockPullSecrets.mockImplementation(async (_repo: string, env: string) => {
+      if (env === 'production') throw new Error('Request timeout after 30s');
+      return vault[env];
+    });
+
+    const { renameSecret } = await import('../src/tools/rename-secret.js');
+    const response = await renameSecret({ from: 'DB_URL', to: 'DATABASE_URL' });
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('Error reading "production"');
+    expect(response.content[0].text).toContain('Nothing was changed');
+    expect(mockPushSecrets).not.toHaveBeenCalled();
+  });
+
+  it('refuses when the new name already exists', async () => {
+    const { renameSecret } = await import('../src/tools/rename-secret.js');
+    const response = await renameSecret({ from: 'DB_URL', to: 'API_KEY' });
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('"development", "production"');
+    expect(mockPushSecrets).not.toHaveBeenCalled();
+  });
+
+  it('returns an error when the key does not exist anywhere', async () => {
+    const { renameSecret } = await import('../src/tools/rename-secret.js');
+    const response = await renameSecret({ from: 'MISSING', to: 'OTHER' });
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('MISSING does not exist');
+  });
+
+  it('rejects invalid or identical names', async () => {
+    const { renameSecret } = await import('../src/tools/rename-secret.js');
+
+    expect((await renameSecret({ from: 'DB_URL', to: 'db-url' })).isError).toBe(true);
+    expect((await renameSecret({ from: 'DB_URL', to: 'DB_URL' })).isError).toBe(true);
+    expect(mockGetVaultEnvironments).not.toHaveBeenCalled();
+  });
+
+  it('changes nothing when a protected environment is refused', async () => {
+    const refusal = { content: [{ type: 'text' as const, text: 'refused' }], isError: true };
+    const guard = {
+      isProtected: (env: string) => env === 'production',
+      confirmWrite: vi.fn(async ({ environment }: { environment: string }) =>
+        environment === 'production' ? refusal : null
+      ),
+    };
+
+    const { renameSecret } = await import('../src/tools/rename-secret.js');
+    const response = await renameSecret({ from: 'DB_URL', to: 'DATABASE_URL' }, guard);
+
+    expect(response).toBe(refusal);
+    expect(mockPushSecrets).not.toHaveBeenCalled();
+  });
+
+  describe('code references', () => {
+    let testDir: string;
+
+    beforeEach(() => {
+      testDir = join(tmpdir(), `keyway-rename-test-${Date.now()}`);
+      mkdirSync(join(testDir, 'src'), { recursive: true });
+      mkdirSync(join(testDir, 'node_modules', 'pkg'), { recursive: true });
+      writeFileSync(
+        join(testDir, 'src', 'db.ts'),
+        `import pg from 'pg';\n\nconst url = process.env.DB_URL;\nconst other = process.env.DB_URL_REPLICA;\n`
+      );
+      writeFileSync(join(testDir, 'src', 'app.py'), `url = os.getenv("DB_URL")\n`);
+      writeFileSync(join(testDir, 'node_modules', 'pkg', 'index.js'), 'process.env.DB_URL');
+    });
+
+    afterEach(() => {
+      rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it('lists references to the old name', async () => {
+      const { renameSecret } = await import('../src/tools/rename-secret.js');
+      const response = await renameSecret({
+        from: 'DB_URL',
+        to: 'DATABASE_URL',
+        findReferences: true,
+        path: testDir,
+      });
+      const data = JSON.parse(response.content[0].text);
+
+      expect(data.references).toHaveLength(2);
+      expect(data.references).toContainEqual({
+        file: join('src', 'db.ts'),
+        line: 3,
+        text: 'const url = process.env.DB_URL;',
+      });
+      expect(data.references).toContainEqual({
+        file: join('src', 'app.py'),
+        line: 1,
+        text: 'url = os.getenv("DB_URL")',
+      });
+      expect(data.message).toContain('2 code references');
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ElicitRequestSchema, type ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+
+const { mockPullSecretsOrEmpty, mockPushSecrets } = vi.hoisted(() => ({
+  mockPullSecretsOrEmpty: vi.fn(),
+  mockPushSecrets: vi.fn(),
+}));
+
+vi.mock('../src/utils/auth.js', () => ({
+  getToken: vi.fn().mockResolvedValue('mock-token'),
+}));
+
+vi.mock('../src/utils/git.js', () => ({
+  getRepository: vi.fn().mockReturnValue('owner/repo'),
+}));
+
+vi.mock('../src/utils/api.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/utils/api.js')>()),
+  pullSecretsOrEmpty: mockPullSecretsOrEmpty,
+  pushSecrets: mockPushSecrets,
+}));
+
+import { requestSecret } from '../src/tools/request-secret.js';
+import { APIError } from '../src/utils/api.js';
+
+/**
+ * Connect a low-level server to a client, optionally answering elicitation requests
+ */
+async function connect(onElicit?: (message: string) => ElicitResult): Promise<Server> {
+  const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} });
+  const client = new Client(
+    { name: 'test-client', version: '1.0.0' },
+    { capabilities: onElicit ? { elicitation: { form: {} } } : {} }
+  );
+
+  if (onElicit) {
+    client.setRequestHandler(ElicitRequestSchema, async (request) =>
+      onElicit(request.params.message)
+    );
+  }
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  return server;
+}
+
+describe('requestSecret', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPullSecretsOrEmpty.mockResolvedValue({ EXISTING: 'value' });
+    mockPushSecrets.mockResolvedValue({});
+  });
+
+  it('stores the value entered by the user and returns only metadata', async () => {
+    const server = await connect(() => ({
+      action: 'accept',
+      content: { value: 'sk_live_supersecret', confirm: true },
+    }));
+
+    const response = await requestSecret({ name: 'STRIPE_KEY', environment: 'staging' }, server);
+    const data = JSON.parse(response.content[0].text as string);
+
+    expect(mockPushSecrets).toHaveBeenCalledWith(
+      'owner/repo',
+      'staging',
+      { EXISTING: 'value', STRIPE_KEY: 'sk_live_supersecret' },
+      'mock-token'
+    );
+    expect(data).toEqual({
+      success: true,
+      name: 'STRIPE_KEY',
+      environment: 'staging',
+      repository: 'owner/repo',
+      action: 'created',
+      length: 19,
+    });
+    expect(JSON.stringify(response)).not.toContain('supersecret');
+  });
+
+  it('reports updates and warns the user about overwrites', async () => {
+    const onElicit = vi.fn().mockReturnValue({
+      action: 'accept',
+      content: { value: 'new-value', confirm: true },
+    });
+    const server = await connect(onElicit);
+
+    const response = await requestSecret(
+      { name: 'EXISTING', description: 'Find it in the dashboard' },
+      server
+    );
+    const data = JSON.parse(response.content[0].text as string);
+
+    expect(data.action).toBe('updated');
+    expect(onElicit.mock.calls[0][0]).toContain('overwrite the existing value');
+    expect(onElicit.mock.calls[0][0]).toContain('Find it in the dashboard');
+  });
+
+  it('stores nothing when the user declines', async () => {
+    const server = await connect(() => ({ action: 'decline' }));
+
+    const response = await requestSecret({ name: 'STRIPE_KEY' }, server);
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('Nothing was stored');
+    expect(mockPushSecrets).not.toHaveBeenCalled();
+  });
+
+  it('stores nothing when the user does not confirm', async () => {
+    const server = await connect(() => ({
+      action: 'accept',
+      content: { value: 'value', confirm: false },
+    }));
+
+    const response = await requestSecret({ name: 'STRIPE_KEY' }, server);
+
+    expect(response.isError).toBe(true);
+    expect(mockPushSecrets).not.toHaveBeenCalled();
+  });
+
+  it('creates the environment when it does not exist yet', async () => {
+    mockPullSecretsOrEmpty.mockResolvedValue({});
+    const server = await connect(() => ({
+      action: 'accept',
+      content: { value: 'value', confirm: true },
+    }));
+
+    const response = await requestSecret({ name: 'STRIPE_KEY' }, server);
+
+    expect(response.isError).toBeFalsy();
+    expect(mockPushSecrets).toHaveBeenCalledWith(
+      'owner/repo',
+      'development',
+      { STRIPE_KEY: 'value' },
+      'mock-token'
+    );
+  });
+
+  it('asks nothing and stores nothing when the environment cannot be read', async () => {
+    mockPullSecretsOrEmpty.mockRejectedValue(new APIError(500, 'Error', 'Internal server error'));
+    const onElicit = vi.fn();
+    const server = await connect(onElicit);
+
+    const response = await requestSecret({ name: 'STRIPE_KEY' }, server);
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('Internal server error');
+    expect(onElicit).not.toHaveBeenCalled();
+    expect(mockPushSecrets).not.toHaveBeenCalled();
+  });
+
+  it('returns an error result when storing the value fails', async () => {
+    mockPushSecrets.mockRejectedValue(new Error('Request timeout after 30s'));
+    const server = await connect(() => ({
+      action: 'accept',
+      content: { value: 'value', confirm: true },
+    }));
+
+    const response = await requestSecret({ name: 'STRIPE_KEY' }, server);
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('Error storing "STRIPE_KEY"');
+  });
+
+  it('returns an error when the client does not support elicitation', async () => {
+    const server = await connect();
+
+    const response = await requestSecret({ name: 'STRIPE_KEY' }, server);
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('does not support MCP elicitation');
+  });
+
+  it('validates secret name format', async () => {
+    const server = await connect();
+
+    const response = await requestSecret({ name: 'invalid-name' }, server);
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('uppercase');
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockDetectGitRepo, mockPullSecrets, mockGetVaultEnvironments } = vi.hoisted(() => ({
+  mockDetectGitRepo: vi.fn(),
+  mockPullSecrets: vi.fn(),
+  mockGetVaultEnvironments: vi.fn(),
+}));
+
+vi.mock('../src/utils/auth.js', () => ({
+  getToken: vi.fn().mockResolvedValue('mock-token'),
+}));
+
+vi.mock('../src/utils/git.js', () => ({
+  detectGitRepo: mockDetectGitRepo,
+}));
+
+vi.mock('../src/utils/api.js', () => ({
+  pullSecrets: mockPullSecrets,
+  getVaultEnvironments: mockGetVaultEnvironments,
+}));
+
+import {
+  completeEnvironment,
+  listEnvironmentResources,
+  listKeyResources,
+  readEnvironments,
+  readKeys,
+} from '../src/resources/vault.js';
+
+describe('vault resources', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDetectGitRepo.mockReturnValue('owner/repo');
+    mockPullSecrets.mockResolvedValue('DATABASE_URL=postgres://localhost\nAPI_KEY=secret');
+    mockGetVaultEnvironments.mockResolvedValue(['development', 'staging', 'production']);
+  });
+
+  it('lists the environments resource for the current repository', async () => {
+    const result = await listEnvironmentResources();
+
+    expect(result.resources).toHaveLength(1);
+    expect(result.resources[0].uri).toBe('keyway://owner/repo/environments');
+  });
+
+  it('lists one keys resource per environment', async () => {
+    const result = await listKeyResources();
+
+    expect(result.resources.map((r) => r.uri)).toEqual([
+      'keyway://owner/repo/development/keys',
+      'keyway://owner/repo/staging/keys',
+      'keyway://owner/repo/production/keys',
+    ]);
+  });
+
+  it('lists nothing outside a git repository', async () => {
+    mockDetectGitRepo.mockReturnValue(null);
+
+    expect((await listEnvironmentResources()).resources).toEqual([]);
+    expect((await listKeyResources()).resources).toEqual([]);
+    expect(mockGetVaultEnvironments).not.toHaveBeenCalled();
+  });
+
+  it('lists no keys resources when the vault cannot be reached', async () => {
+    mockGetVaultEnvironments.mockRejectedValue(new Error('Not logged in'));
+
+    expect((await listKeyResources()).resources).toEqual([]);
+    expect((await listEnvironmentResources()).resources).toHaveLength(1);
+  });
+
+  it('reads environments for the repository in the URI', async () => {
+    const uri = new URL('keyway://acme/api/environments');
+    const result = await readEnvironments(uri, { owner: 'acme', repo: 'api' });
+    const data = JSON.parse(result.contents[0].text as string);
+
+    expect(mockGetVaultEnvironments).toHaveBeenCalledWith('acme/api', 'mock-token');
+    expect(data.environments).toEqual(['development', 'staging', 'production']);
+    expect(result.contents[0].uri).toBe('keyway://acme/api/environments');
+  });
+
+  it('reads secret names without values', async () => {
+    const uri = new URL('keyway://acme/api/production/keys');
+    const result = await readKeys(uri, { owner: 'acme', repo: 'api', environment: 'production' });
+    const text = result.contents[0].text as string;
+    const data = JSON.parse(text);
+
+    expect(mockPullSecrets).toHaveBeenCalledWith('acme/api', 'production', 'mock-token');
+    expect(data.secrets).toEqual(['API_KEY', 'DATABASE_URL']);
+    expect(data.count).toBe(2);
+    expect(text).not.toContain('postgres://localhost');
+  });
+
+  it('completes environment names from the vault', async () => {
+    const result = await completeEnvironment('st', { arguments: { owner: 'acme', repo: 'api' } });
+
+    expect(mockGetVaultEnvironments).toHaveBeenCalledWith('acme/api', 'mock-token');
+    expect(result).toEqual(['staging']);
+  });
+
+  it('returns no completions when the vault cannot be reached', async () => {
+    mockGetVaultEnvironments.mockRejectedValue(new Error('boom'));
+
+    expect(await completeEnvironment('')).toEqual([]);
+  });
+});
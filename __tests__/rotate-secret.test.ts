@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock the utils
+vi.mock('../src/utils/auth.js', () => ({
+  getToken: vi.fn().mockResolvedValue('mock-token'),
+}));
+
+vi.mock('../src/utils/git.js', () => ({
+  getRepository: vi.fn().mockReturnValue('owner/repo'),
+}));
+
+// Mock API with configurable responses
+const mockPullSecrets = vi.fn();
+const mockPushSecrets = vi.fn();
+vi.mock('../src/utils/api.js', () => ({
+  pullSecrets: mockPullSecrets,
+  pushSecrets: mockPushSecrets,
+}));
+
+const OLD_VALUE = 'old-jwt-secret-value-1234';
+
+describe('rotateSecret', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPullSecrets.mockResolvedValue(`JWT_SECRET=${OLD_VALUE}\nOTHER=keep`);
+    mockPushSecrets.mockResolvedValue({});
+  });
+
+  it('stores the new value and keeps the old one as <NAME>_PREVIOUS', async () => {
+    const { rotateSecret } = await import('../src/tools/rotate-secret.js');
+    const response = await rotateSecret({ name: 'JWT_SECRET', type: 'hex', length: 64 });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(response.isError).toBeFalsy();
+    expect(data.success).toBe(true);
+    expect(data.previousKey).toBe('JWT_SECRET_PREVIOUS');
+    expect(data.stages.map((s: { stage: string }) => s.stage)).toEqual(['generate', 'store']);
+
+    const pushed = mockPushSecrets.mock.calls[0][2];
+    expect(pushed.JWT_SECRET).toMatch(/^[0-9a-f]{64}$/);
+    expect(pushed.JWT_SECRET_PREVIOUS).toBe(OLD_VALUE);
+    expect(pushed.OTHER).toBe('keep');
+
+    expect(response.content[0].text).not.toContain(OLD_VALUE);
+    expect(response.content[0].text).not.toContain(pushed.JWT_SECRET);
+  });
+
+  it('previews short old values with only their last characters', async () => {
+    mockPullSecrets.mockResolvedValue('DB_PASSWORD=hunter2ab');
+
+    const { rotateSecret } = await import('../src/tools/rotate-secret.js');
+    const response = await rotateSecret({ name: 'DB_PASSWORD' });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.previousPreview).toBe('**ab (9 chars)');
+    expect(data.preview).toMatch(/^\*\*.{2} \(32 chars\)$/);
+    expect(response.content[0].text).not.toContain('hunter');
+  });
+
+  it('keeps the new value when verification passes', async () => {
+    const { rotateSecret } = await import('../src/tools/rotate-secret.js');
+    const response = await rotateSecret({
+      name: 'JWT_SECRET',
+      verify: {
+        command: process.execPath,
+        args: [
+          '-e',
+          'const { JWT_SECRET, JWT_SECRET_PREVIOUS } = process.env; console.log(JWT_SECRET); process.exit(JWT_SECRET !== JWT_SECRET_PREVIOUS ? 0 : 1)',
+        ],
+      },
+    });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.success).toBe(true);
+    expect(data.restored).toBe(false);
+    expect(data.verification.exitCode).toBe(0);
+    expect(data.verification.stdout).toContain('***REDACTED***');
+    expect(mockPushSecrets).toHaveBeenCalledTimes(1);
+  });
+
+  it('verifies with derived secrets resolved', async () => {
+    mockPullSecrets.mockResolvedValue(`JWT_SECRET=${OLD_VALUE}\nAUTH_HEADER=Bearer \${JWT_SECRET}`);
+
+    const { rotateSecret } = await import('../src/tools/rotate-secret.js');
+    const response = await rotateSecret({
+      name: 'JWT_SECRET',
+      verify: {
+        command: process.execPath,
+        args: [
+          '-e',
+          'const { JWT_SECRET, AUTH_HEADER } = process.env; process.exit(AUTH_HEADER === "Bearer " + JWT_SECRET ? 0 : 1)',
+        ],
+      },
+    });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.verification.exitCode).toBe(0);
+    expect(data.restored).toBe(false);
+    // The vault keeps the template
+    expect(mockPushSecrets.mock.calls[0][2].AUTH_HEADER).toBe('Bearer ${JWT_SECRET}');
+  });
+
+  it('changes nothing when derived secrets cannot be resolved for verification', async () => {
+    mockPullSecrets.mockResolvedValue(`JWT_SECRET=${OLD_VALUE}\nA=\${B}\nB=\${A}`);
+
+    const { rotateSecret } = await import('../src/tools/rotate-secret.js');
+    const response = await rotateSecret({
+      name: 'JWT_SECRET',
+      verify: { command: process.execPath, args: ['-e', ''] },
+    });
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('Circular reference: A -> B -> A');
+    expect(mockPushSecrets).not.toHaveBeenCalled();
+  });
+
+  it('restores the old value when verification fails', async () => {
+    const { rotateSecret } = await import('../src/tools/rotate-secret.js');
+    const response = await rotateSecret({
+      name: 'JWT_SECRET',
+      verify: { command: process.execPath, args: ['-e', 'process.exit(3)'] },
+    });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(response.isError).toBe(true);
+    expect(data.restored).toBe(true);
+    expect(data.stages.map((s: { stage: string; status: string }) => s.status)).toEqual([
+      'done',
+      'done',
+      'failed',
+      'done',
+    ]);
+    expect(mockPushSecrets).toHaveBeenCalledTimes(2);
+    expect(mockPushSecrets).toHaveBeenLastCalledWith(
+      'owner/repo',
+      'development',
+      { JWT_SECRET: OLD_VALUE, OTHER: 'keep' },
+      'mock-token'
+    );
+  });
+
+  it('restores the old value when the verification command cannot run', async () => {
+    const { rotateSecret } = await import('../src/tools/rotate-secret.js');
+    const response = await rotateSecret({
+      name: 'JWT_SECRET',
+      verify: { command: 'nonexistent-command-xyz' },
+    });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.restored).toBe(true);
+    expect(data.stages[2].detail).toContain('Failed to execute command');
+  });
+
+  it('reports when the old value could not be restored', async () => {
+    mockPushSecrets.mockResolvedValueOnce({}).mockRejectedValueOnce(new Error('Network down'));
+
+    const { rotateSecret } = await import('../src/tools/rotate-secret.js');
+    const response = await rotateSecret({
+      name: 'JWT_SECRET',
+      verify: { command: process.execPath, args: ['-e', 'process.exit(1)'] },
+    });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.restored).toBe(false);
+    expect(data.message).toContain('still available as JWT_SECRET_PREVIOUS');
+  });
+
+  it('only rotates existing secrets', async () => {
+    const { rotateSecret } = await import('../src/tools/rotate-secret.js');
+    const response = await rotateSecret({ name: 'MISSING_SECRET' });
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('keyway_generate');
+    expect(mockPushSecrets).not.toHaveBeenCalled();
+  });
+
+  it('changes nothing when a protected environment is refused', async () => {
+    const refusal = { content: [{ type: 'text' as const, text: 'refused' }], isError: true };
+    const guard = { isProtected: () => true, confirmWrite: vi.fn().mockResolvedValue(refusal) };
+
+    const { rotateSecret } = await import('../src/tools/rotate-secret.js');
+    const response = await rotateSecret({ name: 'JWT_SECRET', environment: 'production' }, guard);
+
+    expect(response).toBe(refusal);
+    expect(guard.confirmWrite.mock.calls[0][0].keys).toEqual([
+      { name: 'JWT_SECRET', action: 'overwrite' },
+      { name: 'JWT_SECRET_PREVIOUS', action: 'create' },
+    ]);
+    expect(mockPushSecrets).not.toHaveBeenCalled();
+  });
+
+  it('validates its arguments', async () => {
+    const { rotateSecret } = await import('../src/tools/rotate-secret.js');
+
+    expect((await rotateSecret({ name: 'jwt' })).isError).toBe(true);
+    expect((await rotateSecret({ name: 'JWT_SECRET', length: 4 })).isError).toBe(true);
+    expect((await rotateSecret({ name: 'JWT_SECRET', verify: { command: ' ' } })).isError).toBe(
+      true
+    );
+    expect(mockPullSecrets).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,229 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import type { SecretVersion } from '../src/utils/api.js';
+
+// Mock the utils
+vi.mock('../src/utils/auth.js', () => ({
+  getToken: vi.fn().mockResolvedValue('mock-token'),
+}));
+
+vi.mock('../src/utils/git.js', () => ({
+  getRepository: vi.fn().mockReturnValue('owner/repo'),
+}));
+
+// Local stand-in for the Keyway API history endpoints
+let versions: SecretVersion[] = [];
+const requests: { method?: string; url?: string; auth?: string; body?: unknown }[] = [];
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+  let raw = '';
+  for await (const chunk of req) raw += chunk;
+  const body = raw ? JSON.parse(raw) : undefined;
+  requests.push({ method: req.method, url: req.url, auth: req.headers.authorization, body });
+
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  if (req.method === 'GET' && url.pathname === '/v1/secrets/history') {
+    if (url.searchParams.get('key') !== 'DATABASE_URL') {
+      return send(res, 404, { title: 'Not Found', detail: 'Secret not found' });
+    }
+    return send(res, 200, { data: { versions } });
+  }
+  if (req.method === 'POST' && url.pathname === '/v1/secrets/rollback') {
+    const restored = versions.find((v) => v.version === body.version)!;
+    const version = Math.max(...versions.map((v) => v.version)) + 1;
+    versions.push({ ...restored, version, createdAt: '2026-10-19T12:00:00Z', author: 'agent' });
+    return send(res, 200, { data: { key: body.key, version } });
+  }
+  send(res, 404, { title: 'Not Found', detail: 'Unknown endpoint' });
+}
+
+describe('secret history', () => {
+  const originalApiUrl = process.env.KEYWAY_API_URL;
+  let server: Server;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => void handle(req, res));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    process.env.KEYWAY_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    process.env.KEYWAY_API_URL = originalApiUrl;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    vi.resetModules();
+    requests.length = 0;
+    versions = [
+      {
+        version: 1,
+        value: 'postgres://db-1',
+        createdAt: '2026-10-01T09:00:00Z',
+        author: 'alice',
+      },
+      {
+        version: 3,
+        value: 'postgres://broken-host',
+        createdAt: '2026-10-18T17:30:00Z',
+        author: 'bob',
+      },
+      { version: 2, value: 'postgres://db-2', createdAt: '2026-10-10T09:00:00Z', author: null },
+    ];
+  });
+
+  describe('keyway_secret_history', () => {
+    it('lists versions newest first with masked previews', async () => {
+      const { secretHistory } = await import('../src/tools/secret-history.js');
+      const response = await secretHistory({ name: 'DATABASE_URL', environment: 'production' });
+      const data = JSON.parse(response.content[0].text);
+
+      expect(data.total).toBe(3);
+      expect(data.versions).toEqual([
+        {
+          version: 3,
+          createdAt: '2026-10-18T17:30:00Z',
+          author: 'bob',
+          preview: '**st (22 chars)',
+          current: true,
+        },
+        {
+          version: 2,
+          createdAt: '2026-10-10T09:00:00Z',
+          author: null,
+          preview: '**-2 (15 chars)',
+          current: false,
+        },
+        {
+          version: 1,
+          createdAt: '2026-10-01T09:00:00Z',
+          author: 'alice',
+          preview: '**-1 (15 chars)',
+          current: false,
+        },
+      ]);
+      expect(response.content[0].text).not.toContain('postgres://');
+      expect(requests[0].auth).toBe('Bearer mock-token');
+      expect(requests[0].url).toContain('environment=production');
+    });
+
+    it('limits the number of versions', async () => {
+      const { secretHistory } = await import('../src/tools/secret-history.js');
+      const response = await secretHistory({
+        name: 'DATABASE_URL',
+        environment: 'production',
+        limit: 1,
+      });
+      const data = JSON.parse(response.content[0].text);
+
+      expect(data.versions.map((v: { version: number }) => v.version)).toEqual([3]);
+      expect(data.total).toBe(3);
+    });
+
+    it('returns API errors', async () => {
+      const { secretHistory } = await import('../src/tools/secret-history.js');
+      const response = await secretHistory({ name: 'UNKNOWN', environment: 'production' });
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toBe('Error fetching secret history: Secret not found');
+    });
+
+    it('rejects invalid secret names', async () => {
+      const { secretHistory } = await import('../src/tools/secret-history.js');
+      const response = await secretHistory({ name: 'bad-name', environment: 'production' });
+
+      expect(response.isError).toBe(true);
+      expect(requests).toHaveLength(0);
+    });
+  });
+
+  describe('keyway_rollback_secret', () => {
+    it('restores a previous version as a new version', async () => {
+      const { rollbackSecret } = await import('../src/tools/rollback-secret.js');
+      const response = await rollbackSecret({
+        name: 'DATABASE_URL',
+        environment: 'production',
+        version: 2,
+      });
+      const data = JSON.parse(response.content[0].text);
+
+      expect(data).toMatchObject({
+        success: true,
+        restoredVersion: 2,
+        newVersion: 4,
+        preview: '**-2 (15 chars)',
+      });
+      expect(response.content[0].text).not.toContain('postgres://');
+      expect(requests[1]).toMatchObject({
+        method: 'POST',
+        url: '/v1/secrets/rollback',
+        body: {
+          repoFullName: 'owner/repo',
+          environment: 'production',
+          key: 'DATABASE_URL',
+          version: 2,
+        },
+      });
+      expect(versions.find((v) => v.version === 4)?.value).toBe('postgres://db-2');
+    });
+
+    it('rejects unknown and current versions', async () => {
+      const { rollbackSecret } = await import('../src/tools/rollback-secret.js');
+
+      const unknown = await rollbackSecret({
+        name: 'DATABASE_URL',
+        environment: 'production',
+        version: 9,
+      });
+      expect(unknown.isError).toBe(true);
+      expect(unknown.content[0].text).toContain('Available versions: 3, 2, 1');
+
+      const current = await rollbackSecret({
+        name: 'DATABASE_URL',
+        environment: 'production',
+        version: 3,
+      });
+      expect(current.isError).toBe(true);
+      expect(current.content[0].text).toContain('already the current value');
+
+      expect(requests.filter((r) => r.method === 'POST')).toHaveLength(0);
+    });
+
+    it('changes nothing when a protected environment is refused', async () => {
+      const refusal = { content: [{ type: 'text' as const, text: 'refused' }], isError: true };
+      const guard = { isProtected: () => true, confirmWrite: vi.fn().mockResolvedValue(refusal) };
+
+      const { rollbackSecret } = await import('../src/tools/rollback-secret.js');
+      const response = await rollbackSecret(
+        { name: 'DATABASE_URL', environment: 'production', version: 1 },
+        guard
+      );
+
+      expect(response).toBe(refusal);
+      expect(guard.confirmWrite).toHaveBeenCalledWith({
+        repository: 'owner/repo',
+        environment: 'production',
+        keys: [{ name: 'DATABASE_URL', action: 'overwrite' }],
+      });
+      expect(requests.filter((r) => r.method === 'POST')).toHaveLength(0);
+    });
+
+    it('validates the version number', async () => {
+      const { rollbackSecret } = await import('../src/tools/rollback-secret.js');
+      const response = await rollbackSecret({
+        name: 'DATABASE_URL',
+        environment: 'production',
+        version: 1.5,
+      });
+
+      expect(response.isError).toBe(true);
+      expect(requests).toHaveLength(0);
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { z } from 'zod';
 
 // Mock the utils
 vi.mock('../src/utils/auth.js', () => ({
@@ -9,8 +10,12 @@ vi.mock('../src/utils/git.js', () => ({
   getRepository: vi.fn().mockReturnValue('owner/repo'),
 }));
 
-vi.mock('../src/utils/api.js', () => ({
+vi.mock('../src/utils/api.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/utils/api.js')>()),
   pullSecrets: vi.fn().mockResolvedValue('DATABASE_URL=postgres://localhost\nAPI_KEY=secret'),
+  pullSecretsOrEmpty: vi
+    .fn()
+    .mockResolvedValue({ DATABASE_URL: 'postgres://localhost', API_KEY: 'secret' }),
   pushSecrets: vi.fn().mockResolvedValue({ stats: { created: 1 } }),
   getVaultEnvironments: vi.fn().mockResolvedValue(['development', 'staging', 'production']),
 }));
@@ -39,6 +44,27 @@ describe('listSecrets', async () => {
 
     expect(data.environment).toBe('production');
   });
+
+  it('marks derived keys', async () => {
+    const { pullSecrets } = await import('../src/utils/api.js');
+    vi.mocked(pullSecrets).mockResolvedValueOnce(
+      'DB_HOST=localhost\nDATABASE_URL=postgres://${DB_HOST}/app'
+    );
+
+    const response = await listSecrets({});
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.derived).toEqual(['DATABASE_URL']);
+  });
+
+  it('returns structured content matching the output schema', async () => {
+    const { listSecretsOutputSchema } = await import('../src/tools/list-secrets.js');
+    const response = await listSecrets({});
+
+    expect(z.object(listSecretsOutputSchema).safeParse(response.structuredContent).success).toBe(
+      true
+    );
+  });
 });
 
 describe('setSecret', async () => {
@@ -62,6 +88,88 @@ describe('setSecret', async () => {
     expect(data.success).toBe(true);
     expect(data.name).toBe('VALID_NAME');
   });
+
+  it('pushes the other secrets of the environment along with the new one', async () => {
+    const { pushSecrets } = await import('../src/utils/api.js');
+    const response = await setSecret({ name: 'NEW_KEY', value: 'test' });
+
+    expect(JSON.parse(response.content[0].text).action).toBe('created');
+    expect(pushSecrets).toHaveBeenCalledWith(
+      'owner/repo',
+      'development',
+      { DATABASE_URL: 'postgres://localhost', API_KEY: 'secret', NEW_KEY: 'test' },
+      'mock-token'
+    );
+  });
+
+  it('creates the environment when it does not exist yet', async () => {
+    const { pullSecretsOrEmpty, pushSecrets } = await import('../src/utils/api.js');
+    vi.mocked(pullSecretsOrEmpty).mockResolvedValueOnce({});
+
+    await setSecret({ name: 'NEW_KEY', value: 'test', environment: 'preview' });
+
+    expect(pushSecrets).toHaveBeenCalledWith(
+      'owner/repo',
+      'preview',
+      { NEW_KEY: 'test' },
+      'mock-token'
+    );
+  });
+
+  it('does not push when the environment cannot be read', async () => {
+    const { APIError, pullSecretsOrEmpty, pushSecrets } = await import('../src/utils/api.js');
+    vi.mocked(pullSecretsOrEmpty).mockRejectedValueOnce(new APIError(500, 'Error', 'Server error'));
+
+    await expect(setSecret({ name: 'NEW_KEY', value: 'test' })).rejects.toThrow('Server error');
+    expect(pushSecrets).not.toHaveBeenCalled();
+  });
+
+  it('returns structured content matching the output schema', async () => {
+    const { setSecretOutputSchema } = await import('../src/tools/set-secret.js');
+    const response = await setSecret({ name: 'VALID_NAME', value: 'test' });
+
+    expect(z.object(setSecretOutputSchema).safeParse(response.structuredContent).success).toBe(
+      true
+    );
+  });
+});
+
+describe('setSecret with protected environments', async () => {
+  const { setSecret } = await import('../src/tools/set-secret.js');
+  const { pushSecrets } = await import('../src/utils/api.js');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('asks for confirmation with the overwrite action', async () => {
+    const guard = { isProtected: () => true, confirmWrite: vi.fn().mockResolvedValue(null) };
+
+    await setSecret({ name: 'API_KEY', value: 'new', environment: 'production' }, guard);
+
+    expect(guard.confirmWrite).toHaveBeenCalledWith({
+      repository: 'owner/repo',
+      environment: 'production',
+      keys: [{ name: 'API_KEY', action: 'overwrite' }],
+    });
+    expect(pushSecrets).toHaveBeenCalled();
+  });
+
+  it('does not write when confirmation is refused', async () => {
+    const refusal = { content: [{ type: 'text' as const, text: 'refused' }], isError: true };
+    const guard = { isProtected: () => true, confirmWrite: vi.fn().mockResolvedValue(refusal) };
+
+    const response = await setSecret(
+      { name: 'NEW_KEY', value: 'new', environment: 'production' },
+      guard
+    );
+
+    expect(response).toBe(refusal);
+    expect(guard.confirmWrite.mock.calls[0][0].keys).toEqual([
+      { name: 'NEW_KEY', action: 'create' },
+    ]);
+    expect(pushSecrets).not.toHaveBeenCalled();
+  });
 });
 
 describe('listEnvironments', async () => {
@@ -78,4 +186,21 @@ describe('listEnvironments', async () => {
     expect(data.environments).toEqual(['development', 'staging', 'production']);
     expect(data.count).toBe(3);
   });
+
+  it('reports whether a named environment exists', async () => {
+    const existing = JSON.parse((await listEnvironments({ name: 'staging' })).content[0].text);
+    const missing = JSON.parse((await listEnvironments({ name: 'preview' })).content[0].text);
+
+    expect(existing.exists).toBe(true);
+    expect(missing.exists).toBe(false);
+  });
+
+  it('returns structured content matching the output schema', async () => {
+    const { listEnvironmentsOutputSchema } = await import('../src/tools/list-environments.js');
+    const response = await listEnvironments();
+
+    expect(
+      z.object(listEnvironmentsOutputSchema).safeParse(response.structuredContent).success
+    ).toBe(true);
+  });
 });
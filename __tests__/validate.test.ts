@@ -1,4 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
 import { mkdirSync, writeFileSync, rmSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
@@ -256,4 +257,228 @@ describe('validate', () => {
 
     expect(data.repository).toBe('owner/repo');
   });
+
+  it('returns structured content matching the output schema', async () => {
+    mockPullSecrets.mockResolvedValue('API_KEY=secret');
+
+    const { validate, validateOutputSchema } = await import('../src/tools/validate.js');
+    const response = await validate({ environment: 'production', required: ['API_KEY'] });
+
+    expect(z.object(validateOutputSchema).safeParse(response.structuredContent).success).toBe(true);
+    expect(response.structuredContent).toEqual(JSON.parse(response.content[0].text));
+  });
+
+  describe('with a schema file', () => {
+    const schema = {
+      secrets: {
+        DATABASE_URL: { type: 'postgres-url', description: 'Primary database' },
+        PORT: { type: 'integer', min: 1, max: 65535, required: false },
+        LOG_LEVEL: { type: 'enum', values: ['debug', 'info', 'warn'], required: false },
+        JWT_SECRET: { type: 'jwt-secret' },
+        SENTRY_DSN: { type: 'url', required: ['production'] },
+      },
+    };
+
+    beforeEach(() => {
+      writeFileSync(join(testDir, 'keyway.schema.json'), JSON.stringify(schema));
+    });
+
+    it('adds required keys from keyway.schema.json per environment', async () => {
+      mockPullSecrets.mockResolvedValue('');
+
+      const { validate } = await import('../src/tools/validate.js');
+      const staging = JSON.parse(
+        (await validate({ environment: 'staging', path: testDir })).content[0].text
+      );
+      const production = JSON.parse(
+        (await validate({ environment: 'production', path: testDir })).content[0].text
+      );
+
+      expect(staging.required).toEqual(['DATABASE_URL', 'JWT_SECRET']);
+      expect(production.required).toEqual(['DATABASE_URL', 'JWT_SECRET', 'SENTRY_DSN']);
+      expect(production.schema).toBe(join(testDir, 'keyway.schema.json'));
+    });
+
+    it('reports values that fail their type check without exposing them', async () => {
+      mockPullSecrets.mockResolvedValue(
+        'DATABASE_URL=mysql://root:topsecret@db/app\nJWT_SECRET=changeme\nPORT=99999\nLOG_LEVEL=info'
+      );
+
+      const { validate } = await import('../src/tools/validate.js');
+      const response = await validate({ environment: 'staging', path: testDir });
+      const data = JSON.parse(response.content[0].text);
+
+      expect(data.valid).toBe(false);
+      expect(data.missing).toEqual([]);
+      expect(data.invalid).toEqual([
+        {
+          name: 'DATABASE_URL',
+          type: 'postgres-url',
+          reason: 'not a postgres:// or postgresql:// URL',
+        },
+        {
+          name: 'JWT_SECRET',
+          type: 'jwt-secret',
+          reason: 'entropy of 22 bits is below the minimum of 128',
+        },
+        { name: 'PORT', type: 'integer', reason: 'greater than 65535' },
+      ]);
+      expect(data.stats.invalidCount).toBe(3);
+      expect(data.message).toContain('fail their type check');
+      expect(response.content[0].text).not.toContain('topsecret');
+      expect(response.content[0].text).not.toContain('changeme');
+    });
+
+    it('passes when every value matches its type', async () => {
+      mockPullSecrets.mockResolvedValue(
+        'DATABASE_URL=postgresql://app@db.example.com/app\nJWT_SECRET=q83vEjRWeJq8dN3vASNFZ4mrze8BI0VnT7yXkLpWcA2\nLOG_LEVEL=warn'
+      );
+
+      const { validate } = await import('../src/tools/validate.js');
+      const data = JSON.parse(
+        (await validate({ environment: 'staging', path: testDir })).content[0].text
+      );
+
+      expect(data.valid).toBe(true);
+      expect(data.invalid).toEqual([]);
+    });
+
+    it('type checks derived secrets after resolving them', async () => {
+      mockPullSecrets.mockResolvedValue(
+        'DB_HOST=db.internal\nDATABASE_URL=postgres://app@${DB_HOST}/main\nJWT_SECRET=${DB_HOST}'
+      );
+
+      const { validate } = await import('../src/tools/validate.js');
+      const response = await validate({ environment: 'staging', path: testDir });
+      const data = JSON.parse(response.content[0].text);
+
+      expect(data.invalid.map((entry: { name: string }) => entry.name)).toEqual(['JWT_SECRET']);
+    });
+
+    it('reports derived secrets that cannot be resolved', async () => {
+      mockPullSecrets.mockResolvedValue(
+        `DATABASE_URL=postgres://\${DB_URL}/main\nDB_URL=\${DATABASE_URL}\nJWT_SECRET=${'k'.repeat(8)}${'x1Y2z3'.repeat(8)}`
+      );
+
+      const { validate } = await import('../src/tools/validate.js');
+      const response = await validate({ environment: 'staging', path: testDir });
+      const data = JSON.parse(response.content[0].text);
+
+      expect(data.valid).toBe(false);
+      expect(data.invalid).toContainEqual({
+        name: 'DATABASE_URL',
+        type: 'derived',
+        reason: 'Circular reference: DATABASE_URL -> DB_URL -> DATABASE_URL',
+      });
+      expect(data.message).toContain('cannot be resolved');
+    });
+
+    it('warns about undefined references without failing validation', async () => {
+      mockPullSecrets.mockResolvedValue(
+        `DATABASE_URL=postgres://\${DB_HOST}/main\nJWT_SECRET=${'k'.repeat(8)}${'x1Y2z3'.repeat(8)}`
+      );
+
+      const { validate } = await import('../src/tools/validate.js');
+      const response = await validate({ environment: 'staging', path: testDir });
+      const data = JSON.parse(response.content[0].text);
+
+      expect(data.valid).toBe(true);
+      expect(data.invalid).toEqual([]);
+      expect(data.warnings).toEqual([
+        'DATABASE_URL references undefined secret DB_HOST, kept as literal text (write \\${DB_HOST} to mark it literal)',
+      ]);
+    });
+
+    it('loads an explicit schema path relative to path', async () => {
+      mkdirSync(join(testDir, 'config'));
+      writeFileSync(
+        join(testDir, 'config', 'secrets.json'),
+        JSON.stringify({ secrets: { API_KEY: { type: 'string', minLength: 10 } } })
+      );
+      mockPullSecrets.mockResolvedValue('API_KEY=short');
+
+      const { validate } = await import('../src/tools/validate.js');
+      const data = JSON.parse(
+        (await validate({ environment: 'staging', path: testDir, schema: 'config/secrets.json' }))
+          .content[0].text
+      );
+
+      expect(data.required).toEqual(['API_KEY']);
+      expect(data.invalid).toEqual([
+        { name: 'API_KEY', type: 'string', reason: 'shorter than 10 characters' },
+      ]);
+    });
+
+    it('returns an error for an invalid schema file', async () => {
+      writeFileSync(
+        join(testDir, 'keyway.schema.json'),
+        JSON.stringify({ secrets: { API_KEY: { type: 'color' } } })
+      );
+
+      const { validate } = await import('../src/tools/validate.js');
+      const response = await validate({ environment: 'staging', path: testDir });
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('Invalid schema');
+      expect(response.content[0].text).toContain('secrets.API_KEY.type');
+      expect(mockPullSecrets).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('with example files', () => {
+    it('treats keys in .env.example as required', async () => {
+      writeFileSync(
+        join(testDir, '.env.example'),
+        '# Primary database\nDATABASE_URL=postgres://localhost/app\n\nAPI_KEY=\n'
+      );
+      mockPullSecrets.mockResolvedValue('API_KEY=secret');
+
+      const { validate } = await import('../src/tools/validate.js');
+      const response = await validate({ environment: 'staging', path: testDir });
+      const data = JSON.parse(response.content[0].text);
+
+      expect(data.required).toEqual(['API_KEY', 'DATABASE_URL']);
+      expect(data.missing).toEqual(['DATABASE_URL']);
+      expect(data.examples).toEqual(['.env.example']);
+      expect(data.descriptions).toEqual({ DATABASE_URL: 'Primary database' });
+    });
+
+    it('finds .env.sample and .env.template files in nested packages', async () => {
+      mkdirSync(join(testDir, 'packages', 'api'), { recursive: true });
+      mkdirSync(join(testDir, 'node_modules', 'lib'), { recursive: true });
+      writeFileSync(join(testDir, '.env.sample'), 'WEB_TOKEN=\n');
+      writeFileSync(join(testDir, 'packages', 'api', '.env.template'), 'API_SECRET=""\n');
+      writeFileSync(join(testDir, 'node_modules', 'lib', '.env.example'), 'LIB_KEY=\n');
+
+      const { validate } = await import('../src/tools/validate.js');
+      const response = await validate({ environment: 'staging', path: testDir });
+      const data = JSON.parse(response.content[0].text);
+
+      expect(data.required).toEqual(['API_SECRET', 'WEB_TOKEN']);
+      expect(data.examples).toEqual(['.env.sample', join('packages', 'api', '.env.template')]);
+    });
+
+    it('does not require keys whose comment marks them as optional', async () => {
+      writeFileSync(
+        join(testDir, '.env.example'),
+        'API_KEY=\n# Optional: error reporting\nSENTRY_DSN=\n'
+      );
+
+      const { validate } = await import('../src/tools/validate.js');
+      const response = await validate({ environment: 'staging', path: testDir });
+      const data = JSON.parse(response.content[0].text);
+
+      expect(data.required).toEqual(['API_KEY']);
+    });
+
+    it('ignores example files when examples is false', async () => {
+      writeFileSync(join(testDir, '.env.example'), 'API_KEY=\n');
+
+      const { validate } = await import('../src/tools/validate.js');
+      const response = await validate({ environment: 'staging', path: testDir, examples: false });
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('No required secrets');
+    });
+  });
 });
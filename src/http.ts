@@ -0,0 +1,242 @@
+/**
+ * Streamable HTTP transport
+ * Serves the MCP server over HTTP so several agents can share one process
+ * Each MCP session gets its own server instance; every request must carry the bearer token
+ */
+
+import { createServer as createHttpServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+const MCP_PATH = '/mcp';
+const MAX_BODY_BYTES = 4 * 1024 * 1024; // 4 MB max request body
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  token?: string;
+  // Sessions with no request in flight for this long are closed (default: 30 minutes)
+  sessionIdleTimeoutMs?: number;
+}
+
+export interface HttpServerHandle {
+  url: string;
+  token: string;
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  lastActivity: number;
+  // Open requests, including a client's long-lived GET stream
+  activeRequests: number;
+}
+
+/**
+ * Generate a random bearer token for this server instance
+ */
+function generateToken(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * Check the Authorization header against the expected bearer token
+ * Security: Compares SHA-256 digests in constant time so length and content don't leak
+ */
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) {
+    return false;
+  }
+
+  const provided = createHash('sha256').update(header.slice('Bearer '.length)).digest();
+  const expected = createHash('sha256').update(token).digest();
+  return timingSafeEqual(provided, expected);
+}
+
+/**
+ * Write a JSON-RPC error response
+ */
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+/**
+ * Read and parse a JSON request body, enforcing the size limit
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let bytes = 0;
+
+  for await (const chunk of req) {
+    bytes += (chunk as Buffer).length;
+    if (bytes > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+}
+
+/**
+ * Start the Streamable HTTP server
+ * createServer is called once per MCP session so tool state is never shared between clients
+ */
+export async function startHttpServer(
+  createServer: () => McpServer,
+  options: HttpServerOptions
+): Promise<HttpServerHandle> {
+  const token = options.token || generateToken();
+  const sessions = new Map<string, Session>();
+  const idleTimeout = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+
+  // Clients are not required to send DELETE when they go away, so stale sessions are closed
+  // here; closing a server also stops the background jobs of its session
+  const sweepTimer = setInterval(
+    () => {
+      const now = Date.now();
+      for (const session of sessions.values()) {
+        if (session.activeRequests === 0 && now - session.lastActivity >= idleTimeout) {
+          session.server.close().catch((error) => {
+            console.error('Error closing idle MCP session:', error);
+          });
+        }
+      }
+    },
+    Math.min(idleTimeout, MAX_SWEEP_INTERVAL_MS)
+  );
+  sweepTimer.unref();
+
+  async function handleSessionRequest(
+    session: Session,
+    req: IncomingMessage,
+    res: ServerResponse,
+    body: unknown
+  ) {
+    session.activeRequests++;
+    session.lastActivity = Date.now();
+    res.once('close', () => {
+      session.activeRequests--;
+      session.lastActivity = Date.now();
+    });
+    await session.transport.handleRequest(req, res, body);
+  }
+
+  async function handleMcpRequest(req: IncomingMessage, res: ServerResponse) {
+    const sessionHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await readJsonBody(req);
+      } catch {
+        sendJsonRpcError(res, 400, -32700, 'Parse error: Invalid JSON body');
+        return;
+      }
+    }
+
+    // Existing session
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      await handleSessionRequest(session, req, res, body);
+      return;
+    }
+
+    // New session - only an initialize request may open one
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, server, lastActivity: Date.now(), activeRequests: 0 });
+      },
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  const httpServer: Server = createHttpServer((req, res) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+
+    if (pathname !== MCP_PATH) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not Found');
+      return;
+    }
+
+    if (!isAuthorized(req, token)) {
+      res.writeHead(401, {
+        'Content-Type': 'text/plain',
+        'WWW-Authenticate': 'Bearer realm="keyway-mcp"',
+      });
+      res.end('Unauthorized');
+      return;
+    }
+
+    if (req.method !== 'POST' && req.method !== 'GET' && req.method !== 'DELETE') {
+      res.writeHead(405, { Allow: 'GET, POST, DELETE' });
+      res.end();
+      return;
+    }
+
+    handleMcpRequest(req, res).catch((error) => {
+      console.error('Error handling MCP request:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address() as AddressInfo;
+  const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+
+  return {
+    url: `http://${host}:${address.port}${MCP_PATH}`,
+    token,
+    sessionCount: () => sessions.size,
+    async close() {
+      clearInterval(sweepTimer);
+      const open = Array.from(sessions.values());
+      sessions.clear();
+      await Promise.all(open.map(({ server }) => server.close()));
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close((err) => (err ? reject(err) : resolve()));
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
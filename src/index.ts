@@ -3,135 +3,816 @@
  * Provides tools for LLMs to interact with Keyway secrets
  */
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
-import { listSecrets } from './tools/list-secrets.js';
-import { setSecret } from './tools/set-secret.js';
-import { injectRun } from './tools/inject-run.js';
-import { listEnvironments } from './tools/list-environments.js';
-import { scan } from './tools/scan.js';
-import { diff } from './tools/diff.js';
-import { generate } from './tools/generate.js';
-import { validate } from './tools/validate.js';
-
-const server = new McpServer({
-  name: 'keyway-mcp',
-  version: '1.0.0',
-});
+import { startHttpServer } from './http.js';
+import { parseServerOptions, type ServerOptions } from './utils/config.js';
+import { createToolRegistrar } from './utils/policy.js';
+import { createWriteGuard } from './utils/protection.js';
+import { createJobRegistry, stopAllJobs } from './utils/jobs.js';
+import { listSecrets, listSecretsOutputSchema } from './tools/list-secrets.js';
+import { inspectSecret, inspectSecretOutputSchema } from './tools/inspect-secret.js';
+import { setSecret, setSecretOutputSchema } from './tools/set-secret.js';
+import { requestSecret, requestSecretOutputSchema } from './tools/request-secret.js';
+import { deleteSecret, deleteSecretOutputSchema } from './tools/delete-secret.js';
+import { renameSecret, renameSecretOutputSchema } from './tools/rename-secret.js';
+import { secretHistory, secretHistoryOutputSchema } from './tools/secret-history.js';
+import { rollbackSecret, rollbackSecretOutputSchema } from './tools/rollback-secret.js';
+import { importEnv, importEnvOutputSchema } from './tools/import-env.js';
+import { exportOutputSchema, exportSecrets } from './tools/export.js';
+import { injectRun, injectRunOutputSchema } from './tools/inject-run.js';
+import { jobStart, jobStartOutputSchema } from './tools/job-start.js';
+import { jobStatus, jobStatusOutputSchema } from './tools/job-status.js';
+import { jobLogs, jobLogsOutputSchema } from './tools/job-logs.js';
+import { jobStop, jobStopOutputSchema } from './tools/job-stop.js';
+import { listEnvironments, listEnvironmentsOutputSchema } from './tools/list-environments.js';
+import { createEnvironment, createEnvironmentOutputSchema } from './tools/create-environment.js';
+import { deleteEnvironment, deleteEnvironmentOutputSchema } from './tools/delete-environment.js';
+import { scan, scanOutputSchema } from './tools/scan.js';
+import { diff, diffOutputSchema } from './tools/diff.js';
+import { promote, promoteOutputSchema } from './tools/promote.js';
+import { reconcile, reconcileOutputSchema } from './tools/reconcile.js';
+import { generate, generateOutputSchema } from './tools/generate.js';
+import { rotateSecret, rotateSecretOutputSchema } from './tools/rotate-secret.js';
+import { validate, validateOutputSchema } from './tools/validate.js';
+import {
+  generateEnvExample,
+  generateEnvExampleOutputSchema,
+} from './tools/generate-env-example.js';
+import {
+  ENVIRONMENTS_URI_TEMPLATE,
+  KEYS_URI_TEMPLATE,
+  completeEnvironment,
+  listEnvironmentResources,
+  listKeyResources,
+  readEnvironments,
+  readKeys,
+} from './resources/vault.js';
+import { investigateLeak, onboardRepo, preDeployChecklist } from './prompts/workflows.js';
+
+// Tool annotations - let hosts auto-approve safe calls and gate risky ones
+const READ_ONLY: ToolAnnotations = {
+  readOnlyHint: true,
+  destructiveHint: false,
+  idempotentHint: true,
+  openWorldHint: false,
+};
+
+const OVERWRITE: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: true,
+  idempotentHint: false,
+  openWorldHint: false,
+};
+
+/**
+ * Create a server instance with all tools registered
+ * Called once for stdio, and once per session in HTTP mode
+ */
+function createServer(options: ServerOptions): McpServer {
+  const server = new McpServer({
+    name: 'keyway-mcp',
+    version: '1.0.0',
+  });
+  const { registerTool, assertKnownTools } = createToolRegistrar(server, options.toolPolicy);
+  const guard = createWriteGuard(server.server, options.protectedEnvironments);
+  const jobs = createJobRegistry();
+
+  // Background jobs belong to the session that started them
+  server.server.onclose = () => void jobs.close();
+
+  // Register tools
+  registerTool(
+    'keyway_list_secrets',
+    {
+      description:
+        'List all secret names in the Keyway vault for the current repository. Returns only the keys, not the values, and marks derived keys whose value is built from other secrets.',
+      inputSchema: {
+        environment: z
+          .string()
+          .optional()
+          .describe('Environment to list secrets from (default: "development")'),
+      },
+      outputSchema: listSecretsOutputSchema,
+      annotations: READ_ONLY,
+    },
+    async (args) => listSecrets(args)
+  );
+
+  registerTool(
+    'keyway_inspect_secret',
+    {
+      description:
+        'Inspect a secret without revealing it. Returns only derived facts: length, character classes, Shannon entropy, detected format (URL scheme and host without credentials, JWT algorithm, PEM type, UUID, hex, base64), known provider and live/test mode.',
+      inputSchema: {
+        name: z.string().describe('Secret name (e.g., "DATABASE_URL")'),
+        environment: z
+          .string()
+          .optional()
+          .describe('Environment to inspect (default: "development")'),
+      },
+      outputSchema: inspectSecretOutputSchema,
+      annotations: READ_ONLY,
+    },
+    async (args) => inspectSecret(args)
+  );
+
+  registerTool(
+    'keyway_set_secret',
+    {
+      description:
+        'Create or update a secret in the Keyway vault. The key must be uppercase with underscores (e.g., DATABASE_URL). A value can reference other secrets of the same environment, e.g. "postgres://${DB_USER}:${DB_PASSWORD}@${DB_HOST}/app"; references are resolved when secrets are injected, exported or validated, and URL pieces outside the host and port are percent-encoded (use ${NAME:raw} to opt out). References to keys that do not exist are kept as literal text with a warning, and \\${ keeps a reference literal. Writes to protected environments require user confirmation.',
+      inputSchema: {
+        name: z.string().describe('Secret name - must be uppercase with underscores'),
+        value: z.string().describe('Secret value to store'),
+        environment: z
+          .string()
+          .optional()
+          .describe('Environment to set secret in (default: "development")'),
+      },
+      outputSchema: setSecretOutputSchema,
+      annotations: { ...OVERWRITE, idempotentHint: true },
+    },
+    async (args) => setSecret(args, guard)
+  );
+
+  registerTool(
+    'keyway_request_secret',
+    {
+      description:
+        'Ask the user to enter a secret value (e.g., a third-party API key) and store it in the vault. The value goes directly from the user to Keyway and is never exposed in the conversation. Requires a client that supports MCP elicitation.',
+      inputSchema: {
+        name: z.string().describe('Secret name - must be uppercase with underscores'),
+        environment: z
+          .string()
+          .optional()
+          .describe('Environment to store the secret in (default: "development")'),
+        description: z
+          .string()
+          .optional()
+          .describe('What the secret is for and where to find it, shown to the user'),
+      },
+      outputSchema: requestSecretOutputSchema,
+      annotations: OVERWRITE,
+    },
+    async (args) => requestSecret(args, server.server)
+  );
+
+  registerTool(
+    'keyway_delete_secret',
+    {
+      description:
+        'Delete one or more secrets from an environment. Reports which keys were deleted, which were not found, and which remaining secrets still reference a deleted key. Deletes in protected environments require user confirmation.',
+      inputSchema: {
+        names: z.array(z.string()).describe('Secret names to delete'),
+        environment: z.string().describe('Environment to delete from (e.g., "staging")'),
+      },
+      outputSchema: deleteSecretOutputSchema,
+      annotations: { ...OVERWRITE, idempotentHint: true },
+    },
+    async (args) => deleteSecret(args, guard)
+  );
+
+  registerTool(
+    'keyway_rename_secret',
+    {
+      description:
+        'Rename a secret in every environment that has it. Values are moved without being exposed, derived secrets that reference the old name are updated in the same write, and environments already renamed are rolled back if any environment fails. Optionally lists code references to the old name so they can be updated too.',
+      inputSchema: {
+        from: z.string().describe('Current secret name (e.g., "DB_URL")'),
+        to: z.string().describe('New secret name (e.g., "DATABASE_URL")'),
+        findReferences: z
+          .boolean()
+          .optional()
+          .describe('List code references to the old name (default: false)'),
+        path: z
+          .string()
+          .optional()
+          .describe('Directory to search for code references (default: current directory)'),
+      },
+      outputSchema: renameSecretOutputSchema,
+      annotations: OVERWRITE,
+    },
+    async (args) => renameSecret(args, guard)
+  );
+
+  registerTool(
+    'keyway_secret_history',
+    {
+      description:
+        'List the versions of a secret with timestamp, author and a masked preview (last 2 chars + length). Values are never exposed.',
+      inputSchema: {
+        name: z.string().describe('Secret name (e.g., "DATABASE_URL")'),
+        environment: z.string().describe('Environment name (e.g., "production")'),
+        limit: z
+          .number()
+          .optional()
+          .describe('Maximum number of versions to return, newest first (default: 20)'),
+      },
+      outputSchema: secretHistoryOutputSchema,
+      annotations: READ_ONLY,
+    },
+    async (args) => secretHistory(args)
+  );
+
+  registerTool(
+    'keyway_rollback_secret',
+    {
+      description:
+        'Restore a previous version of a secret (see keyway_secret_history). The restored value is saved as a new version and never exposed. Rollbacks in protected environments require user confirmation.',
+      inputSchema: {
+        name: z.string().describe('Secret name (e.g., "DATABASE_URL")'),
+        environment: z.string().describe('Environment name (e.g., "production")'),
+        version: z.number().describe('Version number to restore'),
+      },
+      outputSchema: rollbackSecretOutputSchema,
+      annotations: OVERWRITE,
+    },
+    async (args) => rollbackSecret(args, guard)
+  );
+
+  registerTool(
+    'keyway_import_env',
+    {
+      description:
+        'Import secrets from a local .env file into the vault. Values are read locally and never exposed in the conversation; only key names are returned. Use dryRun to preview which keys would be created, updated or left unchanged.',
+      inputSchema: {
+        path: z.string().describe('Path to the .env file (e.g., ".env.local")'),
+        environment: z
+          .string()
+          .optional()
+          .describe('Environment to import into (default: "development")'),
+        include: z
+          .array(z.string())
+          .optional()
+          .describe('Only import these keys (supports * wildcards, e.g., "STRIPE_*")'),
+        exclude: z.array(z.string()).optional().describe('Skip these keys (supports * wildcards)'),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe('Preview the changes without writing (default: false)'),
+      },
+      outputSchema: importEnvOutputSchema,
+      annotations: { ...OVERWRITE, idempotentHint: true },
+    },
+    async (args) => importEnv(args, guard)
+  );
+
+  registerTool(
+    'keyway_export',
+    {
+      description:
+        'Export secrets from an environment to a local file (dotenv, JSON, YAML, shell exports, Kubernetes Secret or Docker env-file). Derived secrets are written with their resolved values. The file is created with 0600 permissions and must be gitignored. Only the path and key count are returned.',
+      inputSchema: {
+        path: z.string().describe('File to write (e.g., ".env.production.local")'),
+        format: z
+          .enum(['dotenv', 'json', 'yaml', 'shell', 'k8s-secret', 'docker-env'])
+          .optional()
+          .describe('Output format (default: "dotenv")'),
+        environment: z
+          .string()
+          .optional()
+          .describe('Environment to export (default: "development")'),
+        overwrite: z
+          .boolean()
+          .optional()
+          .describe('Replace the file if it already exists (default: false)'),
+        name: z
+          .string()
+          .optional()
+          .describe('Kubernetes Secret name for "k8s-secret" (default: "<repo>-<environment>")'),
+        namespace: z.string().optional().describe('Kubernetes namespace for "k8s-secret"'),
+      },
+      outputSchema: exportOutputSchema,
+      // Writes a local file, never the vault
+      annotations: { ...OVERWRITE, idempotentHint: true },
+    },
+    async (args) => exportSecrets(args)
+  );
+
+  registerTool(
+    'keyway_inject_run',
+    {
+      description:
+        'Run a command with Keyway secrets injected as environment variables. Derived secrets are resolved first. Secrets are only available to this command.',
+      inputSchema: {
+        command: z.string().describe('The command to run (e.g., "npm", "python")'),
+        args: z.array(z.string()).optional().describe('Arguments to pass to the command'),
+        environment: z
+          .string()
+          .optional()
+          .describe('Environment to pull secrets from (default: "development")'),
+        timeout: z
+          .number()
+          .optional()
+          .describe('Timeout in milliseconds (default: 300000 = 5 minutes)'),
+      },
+      outputSchema: injectRunOutputSchema,
+      // Arbitrary commands can do anything, including reach the network
+      annotations: { ...OVERWRITE, openWorldHint: true },
+    },
+    async (args) => injectRun(args)
+  );
+
+  registerTool(
+    'keyway_job_start',
+    {
+      description:
+        'Start a long-running command (dev server, watcher, migration) in the background with Keyway secrets injected as environment variables. Returns immediately with a job ID; use keyway_job_logs to read its output and keyway_job_stop to stop it. Jobs are stopped when the server exits.',
+      inputSchema: {
+        command: z.string().describe('The command to run (e.g., "npm", "python")'),
+        args: z.array(z.string()).optional().describe('Arguments to pass to the command'),
+        environment: z
+          .string()
+          .optional()
+          .describe('Environment to pull secrets from (default: "development")'),
+      },
+      outputSchema: jobStartOutputSchema,
+      // Arbitrary commands can do anything, including reach the network
+      annotations: { ...OVERWRITE, openWorldHint: true },
+    },
+    async (args) => jobStart(args, jobs)
+  );
+
+  registerTool(
+    'keyway_job_status',
+    {
+      description:
+        'Show the status, exit code and log size of background jobs started with keyway_job_start. Pass a job ID to check a single job.',
+      inputSchema: {
+        jobId: z.string().optional().describe('Job ID (default: all jobs of this session)'),
+      },
+      outputSchema: jobStatusOutputSchema,
+      annotations: READ_ONLY,
+    },
+    async (args) => jobStatus(args, jobs)
+  );
+
+  registerTool(
+    'keyway_job_logs',
+    {
+      description:
+        'Read the output of a background job, one line per entry with stderr lines prefixed by "[stderr]". Secret values are masked. Page with offset and nextOffset, or read the last lines with tail.',
+      inputSchema: {
+        jobId: z.string().describe('Job ID returned by keyway_job_start'),
+        offset: z
+          .number()
+          .optional()
+          .describe('Line to start from; pass the previous nextOffset to read new output'),
+        tail: z.number().optional().describe('Return only the last N lines'),
+        limit: z.number().optional().describe('Maximum number of lines to return (default: 200)'),
+      },
+      outputSchema: jobLogsOutputSchema,
+      annotations: READ_ONLY,
+    },
+    async (args) => jobLogs(args, jobs)
+  );
+
+  registerTool(
+    'keyway_job_stop',
+    {
+      description:
+        'Stop a background job and the processes it started. Sends SIGTERM, then SIGKILL if the job is still running after the timeout. Its logs stay readable.',
+      inputSchema: {
+        jobId: z.string().describe('Job ID returned by keyway_job_start'),
+        timeout: z
+          .number()
+          .optional()
+          .describe('Milliseconds to wait before force killing (default: 5000)'),
+      },
+      outputSchema: jobStopOutputSchema,
+      annotations: { ...OVERWRITE, idempotentHint: true },
+    },
+    async (args) => jobStop(args, jobs)
+  );
+
+  registerTool(
+    'keyway_list_environments',
+    {
+      description:
+        'List the environments that exist in the current repository vault. Pass a name to check whether that environment exists.',
+      inputSchema: {
+        name: z.string().optional().describe('Environment name to check (e.g., "preview")'),
+      },
+      outputSchema: listEnvironmentsOutputSchema,
+      annotations: READ_ONLY,
+    },
+    async (args) => listEnvironments(args)
+  );
 
-// Register tools
-server.tool(
-  'keyway_list_secrets',
-  'List all secret names in the Keyway vault for the current repository. Returns only the keys, not the values.',
-  {
-    environment: z
-      .string()
-      .optional()
-      .describe('Environment to list secrets from (default: "development")'),
-  },
-  async (args) => listSecrets(args)
-);
-
-server.tool(
-  'keyway_set_secret',
-  'Create or update a secret in the Keyway vault. The key must be uppercase with underscores (e.g., DATABASE_URL).',
-  {
-    name: z.string().describe('Secret name - must be uppercase with underscores'),
-    value: z.string().describe('Secret value to store'),
-    environment: z
-      .string()
-      .optional()
-      .describe('Environment to set secret in (default: "development")'),
-  },
-  async (args) => setSecret(args)
-);
-
-server.tool(
-  'keyway_inject_run',
-  'Run a command with Keyway secrets injected as environment variables. Secrets are only available to this command.',
-  {
-    command: z.string().describe('The command to run (e.g., "npm", "python")'),
-    args: z.array(z.string()).optional().describe('Arguments to pass to the command'),
-    environment: z
-      .string()
-      .optional()
-      .describe('Environment to pull secrets from (default: "development")'),
-    timeout: z
-      .number()
-      .optional()
-      .describe('Timeout in milliseconds (default: 300000 = 5 minutes)'),
-  },
-  async (args) => injectRun(args)
-);
-
-server.tool(
-  'keyway_list_environments',
-  'List available environments for the current repository vault.',
-  {},
-  async () => listEnvironments()
-);
-
-server.tool(
-  'keyway_scan',
-  'Scan the codebase for potential secret leaks. Detects AWS keys, GitHub tokens, Stripe keys, private keys, and more.',
-  {
-    path: z.string().optional().describe('Path to scan (default: current directory)'),
-    exclude: z.array(z.string()).optional().describe('Additional directories to exclude'),
-  },
-  async (args) => scan(args)
-);
-
-server.tool(
-  'keyway_diff',
-  'Compare secrets between two environments to find differences.',
-  {
-    env1: z.string().describe('First environment (e.g., "development")'),
-    env2: z.string().describe('Second environment (e.g., "production")'),
-  },
-  async (args) => diff(args)
-);
-
-server.tool(
-  'keyway_generate',
-  'Generate a secure secret and store it directly in the vault. The value is never exposed in the conversation.',
-  {
-    name: z.string().describe('Secret name - must be UPPERCASE_WITH_UNDERSCORES'),
-    type: z
-      .enum(['password', 'uuid', 'api-key', 'jwt-secret', 'hex', 'base64'])
-      .optional()
-      .describe('Type of secret to generate (default: "password")'),
-    length: z.number().optional().describe('Length of the secret (default: 32, range: 8-256)'),
-    environment: z
-      .string()
-      .optional()
-      .describe('Environment to store the secret in (default: "development")'),
-  },
-  async (args) => generate(args)
-);
-
-server.tool(
-  'keyway_validate',
-  'Validate that required secrets exist in an environment. Useful for pre-deployment checks.',
-  {
-    environment: z.string().describe('Environment to validate (e.g., "production")'),
-    required: z.array(z.string()).optional().describe('List of required secret names to check'),
-    autoDetect: z
-      .boolean()
-      .optional()
-      .describe('Auto-detect required secrets from codebase (default: false)'),
-    path: z
-      .string()
-      .optional()
-      .describe('Path to scan for auto-detection (default: current directory)'),
-  },
-  async (args) => validate(args)
-);
+  registerTool(
+    'keyway_create_environment',
+    {
+      description:
+        'Create an environment in the vault, optionally cloning all secrets from an existing environment. Values are copied without being exposed. Cloning into a protected environment requires user confirmation.',
+      inputSchema: {
+        name: z.string().describe('New environment name (e.g., "preview")'),
+        cloneFrom: z
+          .string()
+          .optional()
+          .describe('Existing environment to copy secrets from (e.g., "staging")'),
+      },
+      outputSchema: createEnvironmentOutputSchema,
+      annotations: { ...OVERWRITE, destructiveHint: false },
+    },
+    async (args) => createEnvironment(args, guard)
+  );
+
+  registerTool(
+    'keyway_delete_environment',
+    {
+      description:
+        'Delete an environment and all of its secrets. Without confirm, returns the number and names of the secrets that would be deleted; show this to the user before calling again with confirm: true. Deleting a protected environment also requires user confirmation.',
+      inputSchema: {
+        name: z.string().describe('Environment to delete'),
+        confirm: z
+          .boolean()
+          .optional()
+          .describe('Actually delete the environment (default: false, summary only)'),
+      },
+      outputSchema: deleteEnvironmentOutputSchema,
+      annotations: OVERWRITE,
+    },
+    async (args) => deleteEnvironment(args, guard)
+  );
+
+  registerTool(
+    'keyway_scan',
+    {
+      description:
+        'Scan the codebase for potential secret leaks. Detects AWS keys, GitHub tokens, Stripe keys, private keys, and more.',
+      inputSchema: {
+        path: z.string().optional().describe('Path to scan (default: current directory)'),
+        exclude: z.array(z.string()).optional().describe('Additional directories to exclude'),
+      },
+      outputSchema: scanOutputSchema,
+      annotations: READ_ONLY,
+    },
+    async (args) => scan(args)
+  );
+
+  registerTool(
+    'keyway_diff',
+    {
+      description:
+        'Compare secrets between two environments to find differences. Derived keys are listed separately and compared by template. Use keyway_reconcile to apply them.',
+      inputSchema: {
+        env1: z.string().describe('First environment (e.g., "development")'),
+        env2: z.string().describe('Second environment (e.g., "production")'),
+      },
+      outputSchema: diffOutputSchema,
+      annotations: READ_ONLY,
+    },
+    async (args) => diff(args)
+  );
+
+  registerTool(
+    'keyway_reconcile',
+    {
+      description:
+        'Apply the differences found by keyway_diff: bring the target environment in line with the source. Choose per category whether to add missing keys, copy differing values and delete extra keys. Returns the plan with masked previews and before/after stats; use dryRun to review it first. Writes to protected environments require user confirmation.',
+      inputSchema: {
+        env1: z.string().describe('First environment (e.g., "staging")'),
+        env2: z.string().describe('Second environment (e.g., "production")'),
+        direction: z
+          .enum(['env1-to-env2', 'env2-to-env1'])
+          .describe('Which environment is the source; the other one is changed'),
+        addMissing: z
+          .boolean()
+          .optional()
+          .describe('Add keys that only exist in the source (default: true)'),
+        copyDifferent: z
+          .boolean()
+          .optional()
+          .describe('Copy source values over differing target values (default: false)'),
+        deleteExtra: z
+          .boolean()
+          .optional()
+          .describe('Delete keys that only exist in the target (default: false)'),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe('Preview the plan without writing (default: false)'),
+      },
+      outputSchema: reconcileOutputSchema,
+      annotations: { ...OVERWRITE, idempotentHint: true },
+    },
+    async (args) => reconcile(args, guard)
+  );
+
+  registerTool(
+    'keyway_promote',
+    {
+      description:
+        'Copy secrets from one environment to another (e.g., staging to production) without exposing values. Returns a plan with masked previews; use dryRun to review it before applying. Writes to protected environments require user confirmation.',
+      inputSchema: {
+        source: z.string().describe('Environment to copy from (e.g., "staging")'),
+        target: z.string().describe('Environment to copy to (e.g., "production")'),
+        keys: z
+          .array(z.string())
+          .describe('Keys to copy (supports * wildcards, e.g., "STRIPE_*"; use "*" for all keys)'),
+        policy: z
+          .enum(['skip-existing', 'overwrite', 'only-missing'])
+          .optional()
+          .describe(
+            'How to handle keys that already exist in the target with a different value: "skip-existing" leaves them, "overwrite" replaces them, "only-missing" refuses the promotion (default: "skip-existing")'
+          ),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe('Preview the plan without writing (default: false)'),
+      },
+      outputSchema: promoteOutputSchema,
+      annotations: { ...OVERWRITE, idempotentHint: true },
+    },
+    async (args) => promote(args, guard)
+  );
+
+  registerTool(
+    'keyway_generate',
+    {
+      description:
+        'Generate a secure secret and store it directly in the vault. Supports passwords, UUIDs, API keys, JWT secrets, hex, base64, diceware-style passphrases, templates such as "sk_live_{alnum:32}" and custom charsets, as well as RSA, EC and Ed25519 key pairs for signing and SSH keys. Pass "environments" to generate a distinct value in several environments at once. The result reports the bits of entropy; the value is never exposed in the conversation. For key pairs, the private key is stored as PEM under <NAME>_PRIVATE_KEY and the public key under <NAME>_PUBLIC_KEY; only the public key is returned. Writes to protected environments require user confirmation.',
+      inputSchema: {
+        name: z.string().describe('Secret name - must be UPPERCASE_WITH_UNDERSCORES'),
+        type: z
+          .enum([
+            'password',
+            'uuid',
+            'api-key',
+            'jwt-secret',
+            'hex',
+            'base64',
+            'passphrase',
+            'template',
+            'custom',
+            'rsa-2048',
+            'rsa-4096',
+            'ec-p256',
+            'ec-p384',
+            'ed25519',
+          ])
+          .optional()
+          .describe(
+            'Type of secret to generate (default: "password"). Key pair types store <NAME>_PRIVATE_KEY and <NAME>_PUBLIC_KEY'
+          ),
+        length: z.number().optional().describe('Length of the secret (default: 32, range: 8-256)'),
+        environment: z
+          .string()
+          .optional()
+          .describe('Environment to store the secret in (default: "development")'),
+        environments: z
+          .union([z.array(z.string()), z.literal('all')])
+          .optional()
+          .describe(
+            'Generate an independent value in each of these environments, or "all" for every vault environment (instead of "environment")'
+          ),
+        prefix: z
+          .string()
+          .optional()
+          .describe('Prefix for the value, e.g. "sk_live_" (api-key defaults to "key_")'),
+        template: z
+          .string()
+          .optional()
+          .describe(
+            'Pattern for "template", e.g. "{hex:8}-{hex:4}". Classes: alnum, alpha, lower, upper, digit, hex, special'
+          ),
+        charset: z.string().optional().describe('Characters to draw from for "custom"'),
+        excludeAmbiguous: z
+          .boolean()
+          .optional()
+          .describe('Leave out look-alike characters such as I, l, 1, O and 0 (default: false)'),
+        words: z
+          .number()
+          .optional()
+          .describe('Number of words for "passphrase" (default: 6, range: 3-20)'),
+        separator: z
+          .string()
+          .optional()
+          .describe('Separator between passphrase words: "-", "_", ".", ":" or "+" (default: "-")'),
+        publicKeyFormat: z
+          .enum(['pem', 'jwk', 'openssh'])
+          .optional()
+          .describe('Format of the public key for key pair types (default: "pem")'),
+      },
+      outputSchema: generateOutputSchema,
+      annotations: OVERWRITE,
+    },
+    async (args) => generate(args, guard)
+  );
+
+  registerTool(
+    'keyway_rotate_secret',
+    {
+      description:
+        'Rotate an existing secret: generate a new value, keep the old one as <NAME>_PREVIOUS for graceful rollover, optionally run a verification command with the new value injected, and restore the old value automatically if verification fails. Only masked previews are returned. Rotations in protected environments require user confirmation.',
+      inputSchema: {
+        name: z.string().describe('Secret to rotate (e.g., "JWT_SECRET")'),
+        environment: z
+          .string()
+          .optional()
+          .describe('Environment to rotate in (default: "development")'),
+        type: z
+          .enum(['password', 'uuid', 'api-key', 'jwt-secret', 'hex', 'base64', 'passphrase'])
+          .optional()
+          .describe('Type of the new value (default: "password")'),
+        length: z
+          .number()
+          .optional()
+          .describe('Length of the new value (default: 32, range: 8-256)'),
+        verify: z
+          .object({
+            command: z.string().describe('Command to run (e.g., "npm")'),
+            args: z.array(z.string()).optional().describe('Arguments to pass to the command'),
+            timeout: z
+              .number()
+              .optional()
+              .describe('Timeout in milliseconds (default: 300000 = 5 minutes)'),
+          })
+          .optional()
+          .describe(
+            'Command that checks the new value works; a non-zero exit code restores the old value'
+          ),
+      },
+      outputSchema: rotateSecretOutputSchema,
+      // The verification command can do anything, including reach the network
+      annotations: { ...OVERWRITE, openWorldHint: true },
+    },
+    async (args) => rotateSecret(args, guard)
+  );
+
+  registerTool(
+    'keyway_validate',
+    {
+      description:
+        'Validate that required secrets exist in an environment. Useful for pre-deployment checks. Keys listed in .env.example, .env.sample and .env.template files (including in nested packages) are required unless their comment says "optional", and their comments are returned as descriptions of missing secrets. If the project has a keyway.schema.json, its required secrets are checked too and each value is checked against its declared type (url, postgres-url, integer, enum, jwt-secret, pem). Derived secrets are checked after resolution, and undefined or circular references are reported as invalid; only the names of failing secrets are reported, never their values.',
+      inputSchema: {
+        environment: z.string().describe('Environment to validate (e.g., "production")'),
+        required: z.array(z.string()).optional().describe('List of required secret names to check'),
+        autoDetect: z
+          .boolean()
+          .optional()
+          .describe('Auto-detect required secrets from codebase (default: false)'),
+        path: z
+          .string()
+          .optional()
+          .describe('Path to scan for auto-detection (default: current directory)'),
+        schema: z
+          .string()
+          .optional()
+          .describe(
+            'Path to the secret schema file, relative to path (default: keyway.schema.json)'
+          ),
+        examples: z
+          .boolean()
+          .optional()
+          .describe('Read required secrets from .env.example files under path (default: true)'),
+      },
+      outputSchema: validateOutputSchema,
+      annotations: READ_ONLY,
+    },
+    async (args) => validate(args)
+  );
+
+  registerTool(
+    'keyway_generate_env_example',
+    {
+      description:
+        'Write or update .env.example from the key names in the vault. Existing comments and ordering are kept and new keys are appended with empty values. Secret values are never written.',
+      inputSchema: {
+        environment: z
+          .string()
+          .optional()
+          .describe('Environment to read key names from (default: "development")'),
+        path: z.string().optional().describe('File to write (default: ".env.example")'),
+        prune: z
+          .boolean()
+          .optional()
+          .describe('Remove keys that are no longer in the vault, with their comments'),
+        dryRun: z.boolean().optional().describe('Report the changes without writing the file'),
+      },
+      outputSchema: generateEnvExampleOutputSchema,
+      // Writes a local file, never the vault
+      annotations: { ...OVERWRITE, idempotentHint: true },
+    },
+    async (args) => generateEnvExample(args)
+  );
+
+  assertKnownTools();
+
+  // Register resources
+  server.registerResource(
+    'vault-environments',
+    new ResourceTemplate(ENVIRONMENTS_URI_TEMPLATE, { list: () => listEnvironmentResources() }),
+    {
+      title: 'Vault environments',
+      description: 'Environments available in a repository vault',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => readEnvironments(uri, variables)
+  );
+
+  server.registerResource(
+    'vault-keys',
+    new ResourceTemplate(KEYS_URI_TEMPLATE, {
+      list: () => listKeyResources(),
+      complete: { environment: completeEnvironment },
+    }),
+    {
+      title: 'Vault secret names',
+      description: 'Secret names in a vault environment. Returns only the keys, not the values.',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => readKeys(uri, variables)
+  );
+
+  // Register prompts
+  server.registerPrompt(
+    'pre-deploy-checklist',
+    {
+      title: 'Pre-deploy checklist',
+      description: 'Validate, diff and scan secrets before deploying to an environment',
+      argsSchema: {
+        environment: completable(
+          z.string().describe('Environment to deploy (e.g., "production")'),
+          completeEnvironment
+        ),
+        baseline: completable(
+          z.string().optional().describe('Environment to compare against (default: "staging")'),
+          completeEnvironment
+        ),
+      },
+    },
+    (args) => preDeployChecklist(args)
+  );
+
+  server.registerPrompt(
+    'onboard-repo',
+    {
+      title: 'Onboard this repo to Keyway',
+      description: 'Scan the codebase, detect required secrets and set them up in the vault',
+      argsSchema: {
+        environment: completable(
+          z.string().optional().describe('Environment to set up first (default: "development")'),
+          completeEnvironment
+        ),
+      },
+    },
+    (args) => onboardRepo(args)
+  );
+
+  server.registerPrompt(
+    'investigate-leaked-secret',
+    {
+      title: 'Investigate leaked secret',
+      description:
+        'Find a leaked secret in the codebase and rotate it in every affected environment',
+      argsSchema: {
+        name: z.string().optional().describe('Name of the leaked secret, if known'),
+        path: z.string().optional().describe('Path to scan (default: current directory)'),
+      },
+    },
+    (args) => investigateLeak(args)
+  );
+
+  return server;
+}
 
 // Start server
 async function main() {
+  const options = parseServerOptions();
+
+  // Built up front so an invalid tool policy fails at startup, not on the first session
+  const server = createServer(options);
+
+  if (options.transport === 'http') {
+    const handle = await startHttpServer(() => createServer(options), options);
+    console.error(`Keyway MCP server listening on ${handle.url}`);
+    if (!options.token) {
+      console.error(`Bearer token: ${handle.token}`);
+    }
+
+    const shutdown = () => {
+      Promise.all([handle.close(), stopAllJobs()]).finally(() => process.exit(0));
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+    return;
+  }
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
+
+  // Background jobs would keep the process alive after the client goes away
+  const shutdown = () => {
+    stopAllJobs().finally(() => process.exit(0));
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+  process.stdin.once('end', shutdown);
 }
 
 main().catch((error) => {
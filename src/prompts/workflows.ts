@@ -0,0 +1,101 @@
+/**
+ * Workflow prompts
+ * Reusable instructions that chain the Keyway tools for common secret workflows
+ */
+
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Build a single user message from an intro, numbered steps and a closing line
+ */
+function userPrompt(
+  description: string,
+  intro: string,
+  steps: string[],
+  outro: string
+): GetPromptResult {
+  const numbered = steps.map((step, i) => `${i + 1}. ${step}`).join('\n');
+
+  return {
+    description,
+    messages: [
+      {
+        role: 'user',
+        content: { type: 'text', text: `${intro}\n\n${numbered}\n\n${outro}` },
+      },
+    ],
+  };
+}
+
+/**
+ * Pre-deploy checklist for an environment
+ */
+export function preDeployChecklist(args: {
+  environment: string;
+  baseline?: string;
+}): GetPromptResult {
+  const { environment, baseline = 'staging' } = args;
+
+  const steps = [
+    `Call \`keyway_validate\` with environment "${environment}" and autoDetect true. List every missing secret.`,
+  ];
+  if (baseline !== environment) {
+    steps.push(
+      `Call \`keyway_diff\` with env1 "${baseline}" and env2 "${environment}". Flag keys that exist only in "${baseline}" (likely forgotten in "${environment}") and keys with identical values in both (possibly copied test credentials).`
+    );
+  }
+  steps.push(
+    'Call `keyway_scan` on the project and report any hardcoded secrets that must be removed before deploying.',
+    `For each missing secret that is a random credential (session secrets, JWT secrets, encryption keys), offer to create it with \`keyway_generate\` in "${environment}". Never invent values for third-party credentials; ask me for those instead.`
+  );
+
+  return userPrompt(
+    `Pre-deploy checklist for ${environment}`,
+    `Run a pre-deploy secrets check for the "${environment}" environment of this repository.`,
+    steps,
+    'Finish with a go / no-go summary. Never print secret values.'
+  );
+}
+
+/**
+ * Onboard the current repository to Keyway
+ */
+export function onboardRepo(args: { environment?: string }): GetPromptResult {
+  const { environment = 'development' } = args;
+
+  return userPrompt(
+    'Onboard this repo to Keyway',
+    `Help me onboard this repository to Keyway, starting with the "${environment}" environment.`,
+    [
+      'Call `keyway_scan` on the project to find hardcoded secrets that should move into the vault.',
+      'Call `keyway_list_environments` to see which environments the vault has.',
+      `Call \`keyway_validate\` with environment "${environment}" and autoDetect true to list the secrets the code expects.`,
+      `For each missing secret that is a random credential (session secrets, JWT secrets, encryption keys), create it with \`keyway_generate\` in "${environment}" using the most fitting type.`,
+      'For third-party credentials, tell me which keys I need to provide; do not ask me to paste values into the chat.',
+      `Call \`keyway_validate\` again for "${environment}" and confirm coverage.`,
+    ],
+    'Summarize what was created and what is still missing. Never print secret values.'
+  );
+}
+
+/**
+ * Investigate a leaked secret and rotate it
+ */
+export function investigateLeak(args: { name?: string; path?: string }): GetPromptResult {
+  const { name, path } = args;
+  const target = name ? `the secret "${name}"` : 'any leaked secret';
+  const scanArgs = path ? ` with path "${path}"` : '';
+
+  return userPrompt(
+    'Investigate leaked secret',
+    `Investigate a possible leak of ${target} in this repository.`,
+    [
+      `Call \`keyway_scan\`${scanArgs} and list every finding with its file, line and type.`,
+      'Call `keyway_list_environments`, then `keyway_diff` between environments to find where the affected key is stored and whether environments share the same value.',
+      'For each affected environment, rotate the value: use `keyway_generate` for credentials we issue ourselves; for third-party credentials, tell me to revoke and reissue them with the provider.',
+      'Call `keyway_validate` on each rotated environment to confirm nothing went missing.',
+      'Explain how to remove the leaked value from the code and git history.',
+    ],
+    'Never print secret values, only the masked previews the tools return.'
+  );
+}
@@ -0,0 +1,156 @@
+/**
+ * Vault resources
+ * Exposes vault environments and secret names as MCP resources
+ * Secret values are never included, only the keys
+ */
+
+import type { ListResourcesResult, ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { getToken } from '../utils/auth.js';
+import { detectGitRepo } from '../utils/git.js';
+import { getVaultEnvironments, pullSecrets } from '../utils/api.js';
+import { parseEnvContent } from '../utils/env-parser.js';
+
+export const ENVIRONMENTS_URI_TEMPLATE = 'keyway://{owner}/{repo}/environments';
+export const KEYS_URI_TEMPLATE = 'keyway://{owner}/{repo}/{environment}/keys';
+
+const MIME_TYPE = 'application/json';
+
+/**
+ * Read a single URI template variable as a string
+ */
+function variable(variables: Variables, name: string): string {
+  const value = variables[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function environmentsUri(repository: string): string {
+  return `keyway://${repository}/environments`;
+}
+
+function keysUri(repository: string, environment: string): string {
+  return `keyway://${repository}/${environment}/keys`;
+}
+
+/**
+ * List the environments resource for the current repository
+ * Returns nothing when not inside a GitHub repository
+ */
+export async function listEnvironmentResources(): Promise<ListResourcesResult> {
+  const repository = detectGitRepo();
+  if (!repository) {
+    return { resources: [] };
+  }
+
+  return {
+    resources: [
+      {
+        uri: environmentsUri(repository),
+        name: `${repository} environments`,
+        description: `Environments in the Keyway vault for ${repository}`,
+        mimeType: MIME_TYPE,
+      },
+    ],
+  };
+}
+
+/**
+ * List one keys resource per environment of the current repository
+ * Returns nothing when not inside a GitHub repository, or when the vault cannot be reached
+ * (not logged in, API down), so the rest of resources/list still works
+ */
+export async function listKeyResources(): Promise<ListResourcesResult> {
+  const repository = detectGitRepo();
+  if (!repository) {
+    return { resources: [] };
+  }
+
+  let environments: string[];
+  try {
+    const token = await getToken();
+    environments = await getVaultEnvironments(repository, token);
+  } catch {
+    return { resources: [] };
+  }
+
+  return {
+    resources: environments.map((environment) => ({
+      uri: keysUri(repository, environment),
+      name: `${repository} ${environment} keys`,
+      description: `Secret names in the "${environment}" environment of ${repository}`,
+      mimeType: MIME_TYPE,
+    })),
+  };
+}
+
+/**
+ * Read the environment list for a vault
+ */
+export async function readEnvironments(
+  uri: URL,
+  variables: Variables
+): Promise<ReadResourceResult> {
+  const repository = `${variable(variables, 'owner')}/${variable(variables, 'repo')}`;
+  const token = await getToken();
+
+  const environments = await getVaultEnvironments(repository, token);
+
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: MIME_TYPE,
+        text: JSON.stringify({ repository, environments, count: environments.length }, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Read the secret names (keys only, never values) for a vault environment
+ */
+export async function readKeys(uri: URL, variables: Variables): Promise<ReadResourceResult> {
+  const repository = `${variable(variables, 'owner')}/${variable(variables, 'repo')}`;
+  const environment = variable(variables, 'environment');
+  const token = await getToken();
+
+  const content = await pullSecrets(repository, environment, token);
+  const keys = Object.keys(parseEnvContent(content)).sort();
+
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: MIME_TYPE,
+        text: JSON.stringify(
+          { repository, environment, count: keys.length, secrets: keys },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
+
+/**
+ * Complete an environment name (keys URIs, prompt arguments) from the vault's environment list
+ */
+export async function completeEnvironment(
+  value = '',
+  context?: { arguments?: Record<string, string> }
+): Promise<string[]> {
+  const owner = context?.arguments?.owner;
+  const repo = context?.arguments?.repo;
+  const repository = owner && repo ? `${owner}/${repo}` : detectGitRepo();
+  if (!repository) {
+    return [];
+  }
+
+  try {
+    const token = await getToken();
+    const environments = await getVaultEnvironments(repository, token);
+    return environments.filter((env) => env.startsWith(value));
+  } catch {
+    return [];
+  }
+}
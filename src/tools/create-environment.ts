@@ -0,0 +1,110 @@
+/**
+ * keyway_create_environment tool
+ * Creates an environment in the vault, optionally cloning the secrets of an existing one
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { getToken } from '../utils/auth.js';
+import { getRepository } from '../utils/git.js';
+import {
+  createEnvironment as createVaultEnvironment,
+  deleteEnvironment,
+  getVaultEnvironments,
+  pullSecrets,
+  pushSecrets,
+  validateEnvironment,
+} from '../utils/api.js';
+import { parseEnvContent } from '../utils/env-parser.js';
+import { errorResult, jsonResult } from '../utils/result.js';
+import type { WriteGuard } from '../utils/protection.js';
+
+export const createEnvironmentOutputSchema = {
+  success: z.boolean(),
+  name: z.string(),
+  repository: z.string(),
+  clonedFrom: z.string().optional(),
+  keyCount: z.number(),
+  message: z.string(),
+};
+
+export async function createEnvironment(
+  args: { name: string; cloneFrom?: string },
+  guard?: WriteGuard
+): Promise<CallToolResult> {
+  const { name, cloneFrom } = args;
+
+  try {
+    validateEnvironment(name);
+    if (cloneFrom !== undefined) {
+      validateEnvironment(cloneFrom);
+    }
+
+    const token = await getToken();
+    const repository = getRepository();
+
+    const environments = await getVaultEnvironments(repository, token);
+    if (environments.includes(name)) {
+      return errorResult(`Error: Environment "${name}" already exists in ${repository}`);
+    }
+    if (cloneFrom !== undefined && !environments.includes(cloneFrom)) {
+      return errorResult(
+        `Error: Environment "${cloneFrom}" does not exist in ${repository}. Available: ${environments.join(', ')}`
+      );
+    }
+
+    let secrets: Record<string, string> = {};
+    if (cloneFrom !== undefined) {
+      secrets = parseEnvContent(await pullSecrets(repository, cloneFrom, token));
+    }
+    const keys = Object.keys(secrets);
+
+    // Protected environments need the user's confirmation before receiving secrets
+    if (guard && keys.length > 0) {
+      const refused = await guard.confirmWrite({
+        repository,
+        environment: name,
+        keys: keys.map((key) => ({ name: key, action: 'create' as const })),
+      });
+      if (refused) {
+        return refused;
+      }
+    }
+
+    await createVaultEnvironment(repository, name, token);
+
+    if (keys.length > 0) {
+      try {
+        await pushSecrets(repository, name, secrets, token);
+      } catch (error) {
+        // Don't leave a half-cloned environment behind
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        try {
+          await deleteEnvironment(repository, name, token);
+        } catch {
+          return errorResult(
+            `Error cloning secrets into "${name}": ${message}. The environment was created but is empty; delete it or retry the clone.`
+          );
+        }
+        return errorResult(
+          `Error cloning secrets into "${name}": ${message}. Nothing was changed.`
+        );
+      }
+    }
+
+    return jsonResult({
+      success: true,
+      name,
+      repository,
+      ...(cloneFrom !== undefined && { clonedFrom: cloneFrom }),
+      keyCount: keys.length,
+      message:
+        cloneFrom !== undefined
+          ? `Created "${name}" with ${keys.length} secrets cloned from "${cloneFrom}"`
+          : `Created empty environment "${name}"`,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return errorResult(`Error creating environment: ${message}`);
+  }
+}
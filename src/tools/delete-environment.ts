@@ -0,0 +1,89 @@
+/**
+ * keyway_delete_environment tool
+ * Deletes an environment and all of its secrets
+ * Without confirm, only returns a summary of what would be deleted
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { getToken } from '../utils/auth.js';
+import { getRepository } from '../utils/git.js';
+import {
+  deleteEnvironment as deleteVaultEnvironment,
+  getVaultEnvironments,
+  pullSecrets,
+  validateEnvironment,
+} from '../utils/api.js';
+import { parseEnvContent } from '../utils/env-parser.js';
+import { errorResult, jsonResult } from '../utils/result.js';
+import type { WriteGuard } from '../utils/protection.js';
+
+export const deleteEnvironmentOutputSchema = {
+  success: z.boolean(),
+  deleted: z.boolean(),
+  name: z.string(),
+  repository: z.string(),
+  keyCount: z.number(),
+  keys: z.array(z.string()),
+  message: z.string(),
+};
+
+export async function deleteEnvironment(
+  args: { name: string; confirm?: boolean },
+  guard?: WriteGuard
+): Promise<CallToolResult> {
+  const { name, confirm = false } = args;
+
+  try {
+    validateEnvironment(name);
+
+    const token = await getToken();
+    const repository = getRepository();
+
+    const environments = await getVaultEnvironments(repository, token);
+    if (!environments.includes(name)) {
+      return errorResult(`Error: Environment "${name}" does not exist in ${repository}`);
+    }
+
+    const keys = Object.keys(parseEnvContent(await pullSecrets(repository, name, token))).sort();
+
+    if (!confirm) {
+      return jsonResult({
+        success: true,
+        deleted: false,
+        name,
+        repository,
+        keyCount: keys.length,
+        keys,
+        message: `"${name}" contains ${keys.length} secrets that would be deleted with it. Show this summary to the user and call again with confirm: true to delete.`,
+      });
+    }
+
+    // Protected environments need the user's confirmation first
+    if (guard) {
+      const refused = await guard.confirmWrite({
+        repository,
+        environment: name,
+        keys: keys.map((key) => ({ name: key, action: 'delete' as const })),
+      });
+      if (refused) {
+        return refused;
+      }
+    }
+
+    await deleteVaultEnvironment(repository, name, token);
+
+    return jsonResult({
+      success: true,
+      deleted: true,
+      name,
+      repository,
+      keyCount: keys.length,
+      keys,
+      message: `Deleted environment "${name}" and its ${keys.length} secrets`,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return errorResult(`Error deleting environment: ${message}`);
+  }
+}
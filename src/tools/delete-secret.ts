@@ -0,0 +1,111 @@
+/**
+ * keyway_delete_secret tool
+ * Deletes one or more secrets from an environment
+ * Derived secrets that reference a deleted key are named, since they keep the reference as text
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { getToken } from '../utils/auth.js';
+import { getRepository } from '../utils/git.js';
+import { deleteSecrets, pullSecrets } from '../utils/api.js';
+import { parseEnvContent } from '../utils/env-parser.js';
+import { findDependentKeys } from '../utils/interpolate.js';
+import { errorResult, jsonResult } from '../utils/result.js';
+import { isSecretName } from '../utils/secret-name.js';
+import type { WriteGuard } from '../utils/protection.js';
+
+export const deleteSecretOutputSchema = {
+  success: z.boolean(),
+  environment: z.string(),
+  repository: z.string(),
+  deleted: z.array(z.string()),
+  notFound: z.array(z.string()),
+  dependents: z.array(z.string()),
+  message: z.string(),
+};
+
+export async function deleteSecret(
+  args: { names: string[]; environment: string },
+  guard?: WriteGuard
+): Promise<CallToolResult> {
+  const { names, environment } = args;
+
+  if (!names || names.length === 0) {
+    return errorResult('Error: At least one secret name is required');
+  }
+
+  if (!environment) {
+    return errorResult('Error: Environment is required');
+  }
+
+  const invalid = names.filter((name) => !isSecretName(name));
+  if (invalid.length > 0) {
+    return errorResult(
+      `Error: Invalid secret name${invalid.length > 1 ? 's' : ''} ${invalid.map((n) => `"${n}"`).join(', ')}. Names must be UPPERCASE_WITH_UNDERSCORES`
+    );
+  }
+
+  try {
+    const token = await getToken();
+    const repository = getRepository();
+
+    const content = await pullSecrets(repository, environment, token);
+    const secrets = parseEnvContent(content);
+    const existingKeys = new Set(Object.keys(secrets));
+
+    const unique = [...new Set(names)].sort();
+    const toDelete = unique.filter((name) => existingKeys.has(name));
+    const notFound = unique.filter((name) => !existingKeys.has(name));
+
+    // Derived secrets that are kept but reference a deleted key
+    const dependents = findDependentKeys(secrets, toDelete).filter(
+      (key) => !toDelete.includes(key)
+    );
+    const dependentsWarning =
+      dependents.length > 0
+        ? `${dependents.join(', ')} reference${dependents.length > 1 ? '' : 's'} ${toDelete.join(', ')} and will keep the reference as literal text`
+        : undefined;
+
+    if (toDelete.length > 0) {
+      // Protected environments need the user's confirmation first
+      if (guard) {
+        const refused = await guard.confirmWrite({
+          repository,
+          environment,
+          keys: toDelete.map((name) => ({ name, action: 'delete' as const })),
+          ...(dependentsWarning && { warnings: [dependentsWarning] }),
+        });
+        if (refused) {
+          return refused;
+        }
+      }
+
+      await deleteSecrets(repository, environment, toDelete, token);
+    }
+
+    let message =
+      toDelete.length > 0
+        ? `Deleted ${toDelete.length} secret${toDelete.length > 1 ? 's' : ''} from "${environment}"`
+        : `No secrets deleted from "${environment}"`;
+    if (notFound.length > 0) {
+      message += `. Not found: ${notFound.join(', ')}`;
+    }
+    if (dependentsWarning) {
+      message += `. ${dependentsWarning}; update or delete them`;
+    }
+
+    return jsonResult({
+      success: true,
+      environment,
+      repository,
+      deleted: toDelete,
+      notFound,
+      dependents,
+      message,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return errorResult(`Error deleting secrets: ${message}`);
+  }
+}
@@ -5,41 +5,55 @@
  */
 
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
 import { getToken } from '../utils/auth.js';
 import { getRepository } from '../utils/git.js';
 import { pullSecrets } from '../utils/api.js';
 import { parseEnvContent } from '../utils/env-parser.js';
-
-interface DiffEntry {
-  key: string;
-  preview1: string;
-  preview2: string;
-}
-
-interface DiffStats {
-  totalEnv1: number;
-  totalEnv2: number;
-  onlyInEnv1: number;
-  onlyInEnv2: number;
-  different: number;
-  same: number;
-}
-
-interface DiffResult {
-  env1: string;
-  env2: string;
-  onlyInEnv1: string[];
-  onlyInEnv2: string[];
-  different: DiffEntry[];
-  same: string[];
-  stats: DiffStats;
-}
+import { isDerived } from '../utils/interpolate.js';
+import { jsonResult } from '../utils/result.js';
+
+export const diffEntrySchema = z.object({
+  key: z.string(),
+  preview1: z.string(),
+  preview2: z.string(),
+});
+
+export const diffStatsSchema = z.object({
+  totalEnv1: z.number(),
+  totalEnv2: z.number(),
+  onlyInEnv1: z.number(),
+  onlyInEnv2: z.number(),
+  different: z.number(),
+  same: z.number(),
+});
+
+export const diffResultSchema = z.object({
+  env1: z.string(),
+  env2: z.string(),
+  onlyInEnv1: z.array(z.string()),
+  onlyInEnv2: z.array(z.string()),
+  different: z.array(diffEntrySchema),
+  same: z.array(z.string()),
+  // Keys built from other secrets in either environment; their templates are compared
+  derived: z.array(z.string()),
+  stats: diffStatsSchema,
+});
+
+export type DiffEntry = z.infer<typeof diffEntrySchema>;
+export type DiffResult = z.infer<typeof diffResultSchema>;
+
+export const diffOutputSchema = {
+  repository: z.string(),
+  ...diffResultSchema.shape,
+  warnings: z.array(z.string()).optional(),
+};
 
 /**
  * Create a safe preview of a secret value
  * Shows last 2 chars + length to help identify changes
  */
-function previewValue(value: string): string {
+export function previewValue(value: string): string {
   const length = value.length;
   if (length === 0) {
     return '(empty)';
@@ -53,7 +67,7 @@ function previewValue(value: string): string {
 /**
  * Normalize environment name (dev -> development, prod -> production, etc.)
  */
-function normalizeEnvName(env: string): string {
+export function normalizeEnvName(env: string): string {
   const normalized = env.toLowerCase().trim();
   switch (normalized) {
     case 'prod':
@@ -69,8 +83,9 @@ function normalizeEnvName(env: string): string {
 
 /**
  * Compare secrets between two environments
+ * Values are only reported as masked previews
  */
-function compareSecrets(
+export function compareSecrets(
   env1: string,
   env2: string,
   secrets1: Record<string, string>,
@@ -80,6 +95,7 @@ function compareSecrets(
   const onlyInEnv2: string[] = [];
   const different: DiffEntry[] = [];
   const same: string[] = [];
+  const derived: string[] = [];
 
   // Get all unique keys
   const allKeys = new Set([...Object.keys(secrets1), ...Object.keys(secrets2)]);
@@ -91,6 +107,10 @@ function compareSecrets(
     const val1 = secrets1[key] ?? '';
     const val2 = secrets2[key] ?? '';
 
+    if (isDerived(val1) || isDerived(val2)) {
+      derived.push(key);
+    }
+
     if (inEnv1 && !inEnv2) {
       onlyInEnv1.push(key);
     } else if (!inEnv1 && inEnv2) {
@@ -113,6 +133,7 @@ function compareSecrets(
     onlyInEnv2,
     different,
     same,
+    derived,
     stats: {
       totalEnv1: Object.keys(secrets1).length,
       totalEnv2: Object.keys(secrets2).length,
@@ -197,13 +218,5 @@ export async function diff(args: { env1: string; env2: string }): Promise<CallTo
     ...(warnings.length > 0 && { warnings }),
   };
 
-  return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify(response, null, 2),
-      },
-    ],
-    isError: false,
-  };
+  return jsonResult(response);
 }
@@ -0,0 +1,230 @@
+/**
+ * keyway_export tool
+ * Writes vault secrets to a local file for tools that only read files
+ * (docker compose env_file, systemd EnvironmentFile, Kubernetes manifests)
+ * Only the path and key count are returned - never the values
+ */
+
+import { chmodSync, existsSync, statSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { getToken } from '../utils/auth.js';
+import { getRepository, isGitIgnored, isInsideGitWorkTree } from '../utils/git.js';
+import { pullSecrets } from '../utils/api.js';
+import { formatEnvContent, parseEnvContent } from '../utils/env-parser.js';
+import { resolveSecrets } from '../utils/interpolate.js';
+import { errorResult, jsonResult } from '../utils/result.js';
+
+export type ExportFormat = 'dotenv' | 'json' | 'yaml' | 'shell' | 'k8s-secret' | 'docker-env';
+
+const EXPORT_FORMATS: ExportFormat[] = [
+  'dotenv',
+  'json',
+  'yaml',
+  'shell',
+  'k8s-secret',
+  'docker-env',
+];
+
+interface ExportArgs {
+  path: string;
+  format?: ExportFormat;
+  environment?: string;
+  overwrite?: boolean;
+  name?: string;
+  namespace?: string;
+}
+
+export const exportOutputSchema = {
+  success: z.boolean(),
+  path: z.string(),
+  format: z.string(),
+  environment: z.string(),
+  repository: z.string(),
+  count: z.number(),
+  warnings: z.array(z.string()).optional(),
+};
+
+/**
+ * Quote a value for POSIX shells (single quotes, with embedded quotes escaped)
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// RFC 1123 subdomain (resource names) and label (namespaces)
+const KUBERNETES_NAME_PATTERN = /^[a-z0-9]([a-z0-9.-]*[a-z0-9])?$/;
+const KUBERNETES_NAMESPACE_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/;
+
+/**
+ * Check a user-supplied Kubernetes name, which is written unquoted into the manifest
+ */
+function isKubernetesName(value: string, namespace = false): boolean {
+  return namespace
+    ? value.length <= 63 && KUBERNETES_NAMESPACE_PATTERN.test(value)
+    : value.length <= 253 && KUBERNETES_NAME_PATTERN.test(value);
+}
+
+/**
+ * Build a valid Kubernetes resource name (RFC 1123 subdomain)
+ */
+function kubernetesName(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9.-]+/g, '-')
+    .replace(/^[^a-z0-9]+|[^a-z0-9]+$/g, '')
+    .slice(0, 253);
+}
+
+/**
+ * Format secrets as a Kubernetes Secret manifest with base64-encoded data
+ */
+function formatKubernetesSecret(
+  secrets: Record<string, string>,
+  name: string,
+  namespace?: string
+): string {
+  const lines = ['apiVersion: v1', 'kind: Secret', 'metadata:', `  name: ${name}`];
+  if (namespace) {
+    lines.push(`  namespace: ${namespace}`);
+  }
+  lines.push('type: Opaque', 'data:');
+  for (const [key, value] of Object.entries(secrets)) {
+    lines.push(`  ${key}: ${Buffer.from(value, 'utf-8').toString('base64')}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Format secrets in the requested file format
+ * Throws if a value cannot be represented in the format
+ */
+export function formatSecrets(
+  secrets: Record<string, string>,
+  format: ExportFormat,
+  options: { name: string; namespace?: string }
+): string {
+  switch (format) {
+    case 'dotenv':
+      return formatEnvContent(secrets) + '\n';
+
+    case 'json':
+      return JSON.stringify(secrets, null, 2) + '\n';
+
+    case 'yaml':
+      // JSON strings are valid YAML double-quoted scalars
+      return (
+        Object.entries(secrets)
+          .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+          .join('\n') + '\n'
+      );
+
+    case 'shell':
+      return (
+        Object.entries(secrets)
+          .map(([key, value]) => `export ${key}=${shellQuote(value)}`)
+          .join('\n') + '\n'
+      );
+
+    case 'k8s-secret':
+      return formatKubernetesSecret(secrets, options.name, options.namespace) + '\n';
+
+    case 'docker-env': {
+      // Docker env files take values literally, one per line - no quoting or multiline
+      const multiline = Object.keys(secrets).filter((key) => /[\r\n]/.test(secrets[key]));
+      if (multiline.length > 0) {
+        throw new Error(
+          `Docker env files cannot hold multiline values: ${multiline.join(', ')}. Use another format.`
+        );
+      }
+      return (
+        Object.entries(secrets)
+          .map(([key, value]) => `${key}=${value}`)
+          .join('\n') + '\n'
+      );
+    }
+  }
+}
+
+export async function exportSecrets(args: ExportArgs): Promise<CallToolResult> {
+  const { format = 'dotenv', environment = 'development', overwrite = false } = args;
+
+  if (!args.path) {
+    return errorResult('Error: path is required');
+  }
+
+  if (!EXPORT_FORMATS.includes(format)) {
+    return errorResult(
+      `Error: Invalid format "${format}". Valid formats: ${EXPORT_FORMATS.join(', ')}`
+    );
+  }
+
+  if (args.name !== undefined && !isKubernetesName(args.name)) {
+    return errorResult(
+      `Error: Invalid name "${args.name}". Kubernetes names must be at most 253 lowercase letters, digits, "-" or ".", starting and ending with a letter or digit.`
+    );
+  }
+
+  if (args.namespace !== undefined && !isKubernetesName(args.namespace, true)) {
+    return errorResult(
+      `Error: Invalid namespace "${args.namespace}". Kubernetes namespaces must be at most 63 lowercase letters, digits or "-", starting and ending with a letter or digit.`
+    );
+  }
+
+  const filePath = resolve(args.path);
+  const dir = dirname(filePath);
+
+  if (!existsSync(dir) || !statSync(dir).isDirectory()) {
+    return errorResult(`Error: Directory does not exist: ${dir}`);
+  }
+
+  if (existsSync(filePath)) {
+    if (!statSync(filePath).isFile()) {
+      return errorResult(`Error: ${filePath} is not a file`);
+    }
+    if (!overwrite) {
+      return errorResult(`Error: ${filePath} already exists. Set overwrite to true to replace it.`);
+    }
+  }
+
+  // Security: Never write plaintext secrets where they could be committed
+  if (isInsideGitWorkTree(filePath) && !isGitIgnored(filePath)) {
+    return errorResult(
+      `Error: Refusing to write secrets to ${filePath} because it is not gitignored. Add it to .gitignore first.`
+    );
+  }
+
+  try {
+    const token = await getToken();
+    const repository = getRepository();
+
+    // Derived secrets are exported with their resolved values
+    const content = await pullSecrets(repository, environment, token);
+    const { values: secrets, warnings } = resolveSecrets(parseEnvContent(content));
+
+    const output = formatSecrets(secrets, format, {
+      name: args.name || kubernetesName(`${repository.split('/')[1]}-${environment}`),
+      namespace: args.namespace,
+    });
+
+    // mode only applies when the file is created, so restrict an existing file before writing
+    if (existsSync(filePath)) {
+      chmodSync(filePath, 0o600);
+    }
+    writeFileSync(filePath, output, { encoding: 'utf-8', mode: 0o600 });
+
+    return jsonResult({
+      success: true,
+      path: filePath,
+      format,
+      environment,
+      repository,
+      count: Object.keys(secrets).length,
+      ...(warnings.length > 0 && { warnings }),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return errorResult(`Error exporting secrets: ${message}`);
+  }
+}
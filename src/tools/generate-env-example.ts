@@ -0,0 +1,98 @@
+/**
+ * keyway_generate_env_example tool
+ * Writes or updates .env.example from the vault's key list, keeping existing comments and order
+ * Only key names are written, never values
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { z } from 'zod';
+import { getToken } from '../utils/auth.js';
+import { getRepository } from '../utils/git.js';
+import { pullSecrets } from '../utils/api.js';
+import { parseEnvContent } from '../utils/env-parser.js';
+import { updateEnvExample } from '../utils/env-example.js';
+import { jsonResult } from '../utils/result.js';
+
+interface GenerateEnvExampleArgs {
+  environment?: string;
+  path?: string;
+  prune?: boolean;
+  dryRun?: boolean;
+}
+
+export const generateEnvExampleOutputSchema = {
+  success: z.boolean(),
+  dryRun: z.boolean(),
+  path: z.string(),
+  environment: z.string(),
+  repository: z.string(),
+  created: z.boolean(),
+  added: z.array(z.string()),
+  removed: z.array(z.string()),
+  stale: z.array(z.string()),
+  message: z.string(),
+};
+
+export async function generateEnvExample(args: GenerateEnvExampleArgs): Promise<CallToolResult> {
+  const {
+    environment = 'development',
+    path = '.env.example',
+    prune = false,
+    dryRun = false,
+  } = args;
+  const filePath = resolve(path);
+
+  try {
+    const token = await getToken();
+    const repository = getRepository();
+
+    const keys = Object.keys(parseEnvContent(await pullSecrets(repository, environment, token)));
+
+    const exists = existsSync(filePath);
+    const current = exists ? readFileSync(filePath, 'utf-8') : '';
+    const update = updateEnvExample(current, keys, prune);
+    const changed = update.content !== current;
+
+    if (!dryRun && changed) {
+      writeFileSync(filePath, update.content, 'utf-8');
+    }
+
+    const parts: string[] = [];
+    if (update.added.length > 0) parts.push(`${update.added.length} added`);
+    if (update.removed.length > 0) parts.push(`${update.removed.length} removed`);
+    if (update.stale.length > 0) {
+      parts.push(`${update.stale.length} not in the vault (use prune to remove)`);
+    }
+    const summary = parts.length > 0 ? parts.join(', ') : 'already up to date';
+
+    let message: string;
+    if (dryRun) {
+      message = `Dry run: ${path} would be ${exists ? 'updated' : 'created'} from "${environment}" (${summary})`;
+    } else if (!changed) {
+      message = `${path} is already up to date with "${environment}"`;
+    } else {
+      message = `${exists ? 'Updated' : 'Created'} ${path} from "${environment}" (${summary})`;
+    }
+
+    return jsonResult({
+      success: true,
+      dryRun,
+      path,
+      environment,
+      repository,
+      created: !exists && changed,
+      added: update.added,
+      removed: update.removed,
+      stale: update.stale,
+      message,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      content: [{ type: 'text', text: `Error generating ${path}: ${message}` }],
+      isError: true,
+    };
+  }
+}
@@ -4,50 +4,196 @@
  * The secret value is never exposed to the AI conversation
  */
 
-import { randomBytes, randomUUID } from 'crypto';
+import { generateKeyPairSync, randomBytes, randomUUID, type KeyObject } from 'crypto';
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
 import { getToken } from '../utils/auth.js';
 import { getRepository } from '../utils/git.js';
-import { pushSecrets, pullSecrets } from '../utils/api.js';
-import { parseEnvContent } from '../utils/env-parser.js';
+import { getVaultEnvironments, pullSecretsOrEmpty, pushSecrets } from '../utils/api.js';
+import { jsonResult } from '../utils/result.js';
+import { isSecretName } from '../utils/secret-name.js';
+import type { WriteGuard } from '../utils/protection.js';
+import { WORDLIST } from '../utils/wordlist.js';
+
+export type SecretType =
+  | 'password'
+  | 'uuid'
+  | 'api-key'
+  | 'jwt-secret'
+  | 'hex'
+  | 'base64'
+  | 'passphrase'
+  | 'template'
+  | 'custom';
+
+export const SECRET_TYPES: SecretType[] = [
+  'password',
+  'uuid',
+  'api-key',
+  'jwt-secret',
+  'hex',
+  'base64',
+  'passphrase',
+  'template',
+  'custom',
+];
+
+export const generateOutputSchema = {
+  success: z.boolean(),
+  action: z.enum(['created', 'updated']).optional(),
+  name: z.string(),
+  type: z.string(),
+  length: z.number().optional(),
+  entropyBits: z.number(),
+  preview: z.string().optional(),
+  environment: z.string().optional(),
+  repository: z.string(),
+  keys: z.array(z.string()).optional(),
+  publicKey: z.string().optional(),
+  publicKeyFormat: z.enum(['pem', 'jwk', 'openssh']).optional(),
+  // One row per environment when several environments were requested
+  environments: z
+    .array(
+      z.object({
+        environment: z.string(),
+        action: z.enum(['created', 'updated']),
+        length: z.number(),
+        preview: z.string(),
+        publicKey: z.string().optional(),
+      })
+    )
+    .optional(),
+  message: z.string(),
+};
 
-type SecretType = 'password' | 'uuid' | 'api-key' | 'jwt-secret' | 'hex' | 'base64';
+/**
+ * Options for the generators that need more than a length
+ */
+export interface GenerateOptions {
+  // Prepended to the value; api-key defaults to "key_"
+  prefix?: string;
+  // Characters for the custom type
+  charset?: string;
+  // Drop look-alike characters (I, l, 1, |, O, 0, o) from password, api-key, custom and template values
+  excludeAmbiguous?: boolean;
+  // Number of words for the passphrase type
+  words?: number;
+  // Separator between passphrase words
+  separator?: string;
+  // Pattern for the template type, e.g. "sk_live_{alnum:32}" or "{hex:8}-{hex:4}"
+  template?: string;
+}
+
+export interface GeneratedSecret {
+  value: string;
+  entropyBits: number;
+}
 
-interface GenerateArgs {
+interface GenerateArgs extends GenerateOptions {
   name: string;
-  type?: SecretType;
+  type?: SecretType | KeyPairType;
   length?: number;
   environment?: string;
+  // Several environments, or "all" for every environment in the vault
+  environments?: string[] | 'all';
+  publicKeyFormat?: PublicKeyFormat;
 }
 
+interface GeneratedValues {
+  values: Record<string, string>;
+  entropyBits: number;
+  publicKey?: string;
+}
+
+// Attempts at drawing a value not yet used by another environment
+const MAX_DISTINCT_ATTEMPTS = 100;
+
 // Character sets for password generation
-const CHARSET_ALPHA = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const CHARSET_LOWER = 'abcdefghijklmnopqrstuvwxyz';
+const CHARSET_UPPER = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const CHARSET_ALPHA = CHARSET_LOWER + CHARSET_UPPER;
 const CHARSET_NUMERIC = '0123456789';
 const CHARSET_SPECIAL = '!@#$%^&*()_+-=[]{}|;:,.<>?';
 const CHARSET_ALPHANUMERIC = CHARSET_ALPHA + CHARSET_NUMERIC;
+const CHARSET_HEX = '0123456789abcdef';
+
+// Characters that are easy to confuse when read or typed by hand
+const AMBIGUOUS_CHARACTERS = 'Il1|O0o';
+
+// Character classes available in templates, e.g. {alnum:32}
+const TEMPLATE_CLASSES: Record<string, string> = {
+  alnum: CHARSET_ALPHANUMERIC,
+  alpha: CHARSET_ALPHA,
+  lower: CHARSET_LOWER,
+  upper: CHARSET_UPPER,
+  digit: CHARSET_NUMERIC,
+  hex: CHARSET_HEX,
+  special: CHARSET_SPECIAL,
+};
+
+const TEMPLATE_PLACEHOLDER = /\{([a-z]+):(\d+)\}/g;
+const MAX_TEMPLATE_LENGTH = 1024;
+
+const PREFIX_PATTERN = /^[A-Za-z0-9_.-]{0,32}$/;
+// Words joined without a separator can be split more than one way, which lowers the entropy
+const SEPARATOR_PATTERN = /^[-_.:+]$/;
+const PRINTABLE_ASCII = /^[\x21-\x7e]+$/;
+
+const DEFAULT_PASSPHRASE_WORDS = 6;
+
+/**
+ * Remove look-alike characters from a charset
+ */
+function withoutAmbiguous(charset: string): string {
+  return [...charset].filter((char) => !AMBIGUOUS_CHARACTERS.includes(char)).join('');
+}
+
+/**
+ * Bits of entropy of a value drawn uniformly from a charset
+ */
+function charsetEntropy(length: number, charset: string): number {
+  return length * Math.log2(charset.length);
+}
 
 /**
  * Generate a cryptographically secure random string from a charset
+ * Bytes at or above the largest multiple of the charset size are rejected so every
+ * character is equally likely (no modulo bias)
  */
 function randomString(length: number, charset: string): string {
-  const bytes = randomBytes(length);
+  const limit = 256 - (256 % charset.length);
   let result = '';
-  for (let i = 0; i < length; i++) {
-    result += charset[bytes[i] % charset.length];
+  while (result.length < length) {
+    for (const byte of randomBytes(length - result.length)) {
+      if (byte < limit) {
+        result += charset[byte % charset.length];
+      }
+    }
   }
   return result;
 }
 
+/**
+ * Pick a uniformly random index below max (max <= 2^32)
+ */
+function randomIndex(max: number): number {
+  const limit = 2 ** 32 - (2 ** 32 % max);
+  let value: number;
+  do {
+    value = randomBytes(4).readUInt32BE(0);
+  } while (value >= limit);
+  return value % max;
+}
+
 /**
  * Generate a secure password with mixed characters
  */
-function generatePassword(length: number): string {
+function generatePassword(length: number, charset: string): string {
   // Ensure at least one of each type
   const minLength = 12;
   const actualLength = Math.max(length, minLength);
 
   // Generate base password
-  const charset = CHARSET_ALPHANUMERIC + CHARSET_SPECIAL;
   const password = randomString(actualLength, charset);
 
   // Ensure complexity requirements
@@ -58,52 +204,382 @@ function generatePassword(length: number): string {
 
   // If missing any, regenerate (rare case)
   if (!hasLower || !hasUpper || !hasNumber || !hasSpecial) {
-    return generatePassword(length);
+    return generatePassword(length, charset);
   }
 
   return password;
 }
 
 /**
- * Generate a secret based on type
+ * Generate a diceware-style passphrase from the bundled wordlist
+ */
+function generatePassphrase(words: number, separator: string): string {
+  return Array.from({ length: words }, () => WORDLIST[randomIndex(WORDLIST.length)]).join(
+    separator
+  );
+}
+
+/**
+ * Split a template into literal text and character class placeholders
+ * Throws if the template has no placeholders, an unknown class, or stray braces
  */
-function generateSecret(type: SecretType, length: number): string {
+function parseTemplate(
+  template: string,
+  excludeAmbiguous: boolean
+): Array<string | { charset: string; count: number }> {
+  const parts: Array<string | { charset: string; count: number }> = [];
+  let lastIndex = 0;
+  let total = 0;
+
+  const pushLiteral = (text: string) => {
+    if (/[{}]/.test(text)) {
+      throw new Error(
+        `Invalid template "${template}". Placeholders look like {alnum:32}; classes: ${Object.keys(TEMPLATE_CLASSES).join(', ')}`
+      );
+    }
+    if (text) parts.push(text);
+    total += text.length;
+  };
+
+  for (const match of template.matchAll(TEMPLATE_PLACEHOLDER)) {
+    pushLiteral(template.slice(lastIndex, match.index));
+    lastIndex = match.index + match[0].length;
+
+    const [, name, countText] = match;
+    if (!(name in TEMPLATE_CLASSES)) {
+      throw new Error(
+        `Unknown template class "${name}". Valid classes: ${Object.keys(TEMPLATE_CLASSES).join(', ')}`
+      );
+    }
+    const count = Number(countText);
+    if (count < 1 || count > 256) {
+      throw new Error(`Template placeholder {${name}:${countText}} must have a count of 1-256`);
+    }
+    // Hex keeps all of its digits so the value stays valid hex
+    const charset =
+      excludeAmbiguous && name !== 'hex'
+        ? withoutAmbiguous(TEMPLATE_CLASSES[name])
+        : TEMPLATE_CLASSES[name];
+    parts.push({ charset, count });
+    total += count;
+  }
+  pushLiteral(template.slice(lastIndex));
+
+  if (!parts.some((part) => typeof part !== 'string')) {
+    throw new Error(`Template "${template}" has no placeholders, so it would not be random`);
+  }
+  if (total > MAX_TEMPLATE_LENGTH) {
+    throw new Error(`Template values must be at most ${MAX_TEMPLATE_LENGTH} characters`);
+  }
+
+  return parts;
+}
+
+/**
+ * Resolve the charset of the custom type
+ */
+function customCharset(charset: string, excludeAmbiguous: boolean): string {
+  const unique = [...new Set(charset)].join('');
+  return excludeAmbiguous ? withoutAmbiguous(unique) : unique;
+}
+
+/**
+ * Check generator options for a type
+ * Returns the reason the options are invalid, or null if they are valid
+ */
+export function checkGenerateOptions(type: SecretType, options: GenerateOptions): string | null {
+  const { prefix, charset, excludeAmbiguous = false, words, separator, template } = options;
+
+  if (prefix !== undefined && !PREFIX_PATTERN.test(prefix)) {
+    return 'Prefix must be at most 32 letters, digits, "_", "." or "-"';
+  }
+
   switch (type) {
-    case 'password':
-      return generatePassword(length);
+    case 'passphrase':
+      if (words !== undefined && (!Number.isInteger(words) || words < 3 || words > 20)) {
+        return 'Words must be between 3 and 20';
+      }
+      if (separator !== undefined && !SEPARATOR_PATTERN.test(separator)) {
+        return 'Separator must be one of: - _ . : +';
+      }
+      return null;
+
+    case 'template':
+      if (!template) {
+        return 'The template type needs a template, e.g. "sk_live_{alnum:32}"';
+      }
+      try {
+        parseTemplate(template, excludeAmbiguous);
+      } catch (error) {
+        return error instanceof Error ? error.message : 'Invalid template';
+      }
+      return null;
+
+    case 'custom':
+      if (!charset) {
+        return 'The custom type needs a charset';
+      }
+      if (!PRINTABLE_ASCII.test(charset)) {
+        return 'Charset must only contain printable ASCII characters without spaces';
+      }
+      if (customCharset(charset, excludeAmbiguous).length < 2) {
+        return 'Charset must contain at least 2 distinct characters';
+      }
+      return null;
+
+    default:
+      return null;
+  }
+}
 
+/**
+ * Generate the random part of a secret, before any prefix
+ */
+function generateRandomPart(
+  type: SecretType,
+  length: number,
+  options: GenerateOptions
+): GeneratedSecret {
+  const { excludeAmbiguous = false } = options;
+
+  switch (type) {
     case 'uuid':
-      return randomUUID();
+      // 122 random bits; the other 6 encode the version and variant
+      return { value: randomUUID(), entropyBits: 122 };
 
-    case 'api-key':
+    case 'api-key': {
       // Format: prefix_base62 (like sk_live_xxx or key_xxx)
-      return `key_${randomString(length, CHARSET_ALPHANUMERIC)}`;
+      const charset = excludeAmbiguous
+        ? withoutAmbiguous(CHARSET_ALPHANUMERIC)
+        : CHARSET_ALPHANUMERIC;
+      return {
+        value: randomString(length, charset),
+        entropyBits: charsetEntropy(length, charset),
+      };
+    }
 
     case 'jwt-secret': {
       // 256-bit minimum for HS256
       const jwtLength = Math.max(length, 32);
-      return randomBytes(jwtLength).toString('base64url');
+      return { value: randomBytes(jwtLength).toString('base64url'), entropyBits: jwtLength * 8 };
     }
 
     case 'hex':
-      return randomBytes(Math.ceil(length / 2))
-        .toString('hex')
-        .slice(0, length);
+      return {
+        value: randomBytes(Math.ceil(length / 2))
+          .toString('hex')
+          .slice(0, length),
+        entropyBits: length * 4,
+      };
 
     case 'base64':
-      return randomBytes(Math.ceil((length * 3) / 4))
-        .toString('base64')
-        .slice(0, length);
+      return {
+        value: randomBytes(Math.ceil((length * 3) / 4))
+          .toString('base64')
+          .slice(0, length),
+        entropyBits: length * 6,
+      };
+
+    case 'passphrase': {
+      const words = options.words ?? DEFAULT_PASSPHRASE_WORDS;
+      return {
+        value: generatePassphrase(words, options.separator ?? '-'),
+        entropyBits: words * Math.log2(WORDLIST.length),
+      };
+    }
+
+    case 'template': {
+      let value = '';
+      let entropyBits = 0;
+      for (const part of parseTemplate(options.template!, excludeAmbiguous)) {
+        if (typeof part === 'string') {
+          value += part;
+        } else {
+          value += randomString(part.count, part.charset);
+          entropyBits += charsetEntropy(part.count, part.charset);
+        }
+      }
+      return { value, entropyBits };
+    }
 
+    case 'custom': {
+      const charset = customCharset(options.charset!, excludeAmbiguous);
+      return {
+        value: randomString(length, charset),
+        entropyBits: charsetEntropy(length, charset),
+      };
+    }
+
+    case 'password':
+    default: {
+      const charset = CHARSET_ALPHANUMERIC + CHARSET_SPECIAL;
+      const usable = excludeAmbiguous ? withoutAmbiguous(charset) : charset;
+      const password = generatePassword(length, usable);
+      return { value: password, entropyBits: charsetEntropy(password.length, usable) };
+    }
+  }
+}
+
+/**
+ * Generate a secret based on type, with the bits of entropy of the random part
+ * Throws if the options are invalid for the type (see checkGenerateOptions)
+ */
+export function generateSecret(
+  type: SecretType,
+  length: number,
+  options: GenerateOptions = {}
+): GeneratedSecret {
+  const invalid = checkGenerateOptions(type, options);
+  if (invalid) {
+    throw new Error(invalid);
+  }
+
+  const prefix = options.prefix ?? (type === 'api-key' ? 'key_' : '');
+
+  const secret = generateRandomPart(type, length, options);
+  return { value: prefix + secret.value, entropyBits: Math.floor(secret.entropyBits) };
+}
+
+export type KeyPairType = 'rsa-2048' | 'rsa-4096' | 'ec-p256' | 'ec-p384' | 'ed25519';
+
+export const KEY_PAIR_TYPES: KeyPairType[] = [
+  'rsa-2048',
+  'rsa-4096',
+  'ec-p256',
+  'ec-p384',
+  'ed25519',
+];
+
+export type PublicKeyFormat = 'pem' | 'jwk' | 'openssh';
+
+export const PUBLIC_KEY_FORMATS: PublicKeyFormat[] = ['pem', 'jwk', 'openssh'];
+
+export interface GeneratedKeyPair {
+  privateKey: string;
+  publicKey: string;
+  // Security strength in bits (NIST SP 800-57), comparable to the entropy of symmetric secrets
+  securityBits: number;
+}
+
+// OpenSSH names of the EC curves
+const SSH_CURVES: Record<string, string> = { 'P-256': 'nistp256', 'P-384': 'nistp384' };
+
+/**
+ * Check whether a type generates a key pair rather than a single value
+ */
+export function isKeyPairType(type: string): type is KeyPairType {
+  return KEY_PAIR_TYPES.includes(type as KeyPairType);
+}
+
+/**
+ * Encode a string or buffer as an SSH wire-format string (uint32 length + bytes)
+ */
+function sshString(data: string | Buffer): Buffer {
+  const bytes = typeof data === 'string' ? Buffer.from(data) : data;
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(bytes.length);
+  return Buffer.concat([length, bytes]);
+}
+
+/**
+ * Encode a big-endian unsigned integer as an SSH mpint (leading zero if the high bit is set)
+ */
+function sshMpint(bytes: Buffer): Buffer {
+  return sshString(bytes[0] & 0x80 ? Buffer.concat([Buffer.from([0]), bytes]) : bytes);
+}
+
+/**
+ * Format a public key as an OpenSSH authorized_keys line
+ */
+function toOpenSsh(publicKey: KeyObject): string {
+  const jwk = publicKey.export({ format: 'jwk' });
+  const decode = (value: string | undefined) => Buffer.from(value ?? '', 'base64url');
+
+  let algorithm: string;
+  let blob: Buffer;
+  if (jwk.kty === 'RSA') {
+    algorithm = 'ssh-rsa';
+    blob = Buffer.concat([sshString(algorithm), sshMpint(decode(jwk.e)), sshMpint(decode(jwk.n))]);
+  } else if (jwk.kty === 'EC') {
+    const curve = SSH_CURVES[jwk.crv ?? ''];
+    algorithm = `ecdsa-sha2-${curve}`;
+    const point = Buffer.concat([Buffer.from([0x04]), decode(jwk.x), decode(jwk.y)]);
+    blob = Buffer.concat([sshString(algorithm), sshString(curve), sshString(point)]);
+  } else {
+    algorithm = 'ssh-ed25519';
+    blob = Buffer.concat([sshString(algorithm), sshString(decode(jwk.x))]);
+  }
+
+  return `${algorithm} ${blob.toString('base64')}`;
+}
+
+/**
+ * Check the public key format of a key pair type
+ */
+function checkPublicKeyFormat(format: string): string | null {
+  if (!PUBLIC_KEY_FORMATS.includes(format as PublicKeyFormat)) {
+    return `Invalid public key format "${format}". Valid formats: ${PUBLIC_KEY_FORMATS.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Generate an asymmetric key pair
+ * The private key is PKCS#8 PEM; the public key is SPKI PEM, JWK (JSON) or OpenSSH
+ */
+export function generateKeyPair(
+  type: KeyPairType,
+  publicKeyFormat: PublicKeyFormat = 'pem'
+): GeneratedKeyPair {
+  let pair: { privateKey: KeyObject; publicKey: KeyObject };
+  let securityBits: number;
+
+  switch (type) {
+    case 'rsa-2048':
+      pair = generateKeyPairSync('rsa', { modulusLength: 2048 });
+      securityBits = 112;
+      break;
+    case 'rsa-4096':
+      pair = generateKeyPairSync('rsa', { modulusLength: 4096 });
+      securityBits = 140;
+      break;
+    case 'ec-p256':
+      pair = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+      securityBits = 128;
+      break;
+    case 'ec-p384':
+      pair = generateKeyPairSync('ec', { namedCurve: 'P-384' });
+      securityBits = 192;
+      break;
+    case 'ed25519':
+      pair = generateKeyPairSync('ed25519');
+      securityBits = 128;
+      break;
+  }
+
+  let publicKey: string;
+  switch (publicKeyFormat) {
+    case 'jwk':
+      publicKey = JSON.stringify(pair.publicKey.export({ format: 'jwk' }));
+      break;
+    case 'openssh':
+      publicKey = toOpenSsh(pair.publicKey);
+      break;
     default:
-      return generatePassword(length);
+      publicKey = pair.publicKey.export({ type: 'spki', format: 'pem' }).toString();
   }
+
+  return {
+    privateKey: pair.privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    publicKey,
+    securityBits,
+  };
 }
 
 /**
  * Mask a secret for safe display
  */
-function maskSecret(value: string): string {
+export function maskSecret(value: string): string {
   if (value.length <= 8) {
     return '*'.repeat(value.length);
   }
@@ -111,14 +587,37 @@ function maskSecret(value: string): string {
 }
 
 /**
- * Validate secret name format
+ * Generate the values to store in one environment: one secret, or the two halves of a key pair
  */
-function isValidSecretName(name: string): boolean {
-  return /^[A-Z][A-Z0-9_]*$/.test(name);
+function generateValues(
+  name: string,
+  type: SecretType | KeyPairType,
+  length: number,
+  options: GenerateOptions,
+  publicKeyFormat: PublicKeyFormat
+): GeneratedValues {
+  if (isKeyPairType(type)) {
+    const pair = generateKeyPair(type, publicKeyFormat);
+    return {
+      values: { [`${name}_PRIVATE_KEY`]: pair.privateKey, [`${name}_PUBLIC_KEY`]: pair.publicKey },
+      entropyBits: pair.securityBits,
+      publicKey: pair.publicKey,
+    };
+  }
+  const secret = generateSecret(type, length, options);
+  return { values: { [name]: secret.value }, entropyBits: secret.entropyBits };
 }
 
-export async function generate(args: GenerateArgs): Promise<CallToolResult> {
-  const { name, type = 'password', length = 32, environment = 'development' } = args;
+export async function generate(args: GenerateArgs, guard?: WriteGuard): Promise<CallToolResult> {
+  const {
+    name,
+    type = 'password',
+    length = 32,
+    environment,
+    environments,
+    publicKeyFormat = 'pem',
+    ...options
+  } = args;
 
   // Validate name
   if (!name) {
@@ -128,7 +627,7 @@ export async function generate(args: GenerateArgs): Promise<CallToolResult> {
     };
   }
 
-  if (!isValidSecretName(name)) {
+  if (!isSecretName(name)) {
     return {
       content: [
         {
@@ -141,13 +640,12 @@ export async function generate(args: GenerateArgs): Promise<CallToolResult> {
   }
 
   // Validate type
-  const validTypes: SecretType[] = ['password', 'uuid', 'api-key', 'jwt-secret', 'hex', 'base64'];
-  if (!validTypes.includes(type)) {
+  if (!isKeyPairType(type) && !SECRET_TYPES.includes(type)) {
     return {
       content: [
         {
           type: 'text',
-          text: `Error: Invalid type "${type}". Valid types: ${validTypes.join(', ')}`,
+          text: `Error: Invalid type "${type}". Valid types: ${[...SECRET_TYPES, ...KEY_PAIR_TYPES].join(', ')}`,
         },
       ],
       isError: true,
@@ -162,47 +660,192 @@ export async function generate(args: GenerateArgs): Promise<CallToolResult> {
     };
   }
 
+  // Validate type-specific options
+  const invalidOptions = isKeyPairType(type)
+    ? checkPublicKeyFormat(publicKeyFormat)
+    : checkGenerateOptions(type, options);
+  if (invalidOptions) {
+    return {
+      content: [{ type: 'text', text: `Error: ${invalidOptions}` }],
+      isError: true,
+    };
+  }
+
+  // Validate target environments
+  if (environment !== undefined && environments !== undefined) {
+    return {
+      content: [
+        { type: 'text', text: 'Error: Use either "environment" or "environments", not both' },
+      ],
+      isError: true,
+    };
+  }
+
+  if (Array.isArray(environments) && environments.length === 0) {
+    return {
+      content: [{ type: 'text', text: 'Error: "environments" must list at least one environment' }],
+      isError: true,
+    };
+  }
+
   try {
     const token = await getToken();
     const repository = getRepository();
 
-    // Generate the secret value
-    const secretValue = generateSecret(type, length);
+    // Resolve the environments to write to
+    let targets: string[];
+    if (environments === 'all') {
+      targets = await getVaultEnvironments(repository, token);
+      if (targets.length === 0) {
+        return {
+          content: [{ type: 'text', text: `Error: No environments found in ${repository}` }],
+          isError: true,
+        };
+      }
+    } else if (environments) {
+      targets = [...new Set(environments)];
+    } else {
+      targets = [environment ?? 'development'];
+    }
+
+    // Generate an independent value for each environment, never reusing one
+    const generated = new Map<string, GeneratedValues>();
+    const used = new Set<string>();
+    for (const target of targets) {
+      let result = generateValues(name, type, length, options, publicKeyFormat);
+      let attempts = 1;
+      while (Object.values(result.values).some((value) => used.has(value))) {
+        if (attempts++ >= MAX_DISTINCT_ATTEMPTS) {
+          throw new Error(
+            'Could not generate a distinct value for each environment; use a longer length or larger charset'
+          );
+        }
+        result = generateValues(name, type, length, options, publicKeyFormat);
+      }
+      Object.values(result.values).forEach((value) => used.add(value));
+      generated.set(target, result);
+    }
+    const keys = Object.keys(generated.get(targets[0])!.values);
 
-    // Pull existing secrets
-    let existingSecrets: Record<string, string> = {};
-    try {
-      const content = await pullSecrets(repository, environment, token);
-      existingSecrets = parseEnvContent(content);
-    } catch {
-      // Environment might not exist yet, that's OK
+    // Pull existing secrets; they are also the snapshots a failed write is rolled back to
+    const existing = new Map<string, Record<string, string>>();
+    for (const target of targets) {
+      existing.set(target, await pullSecretsOrEmpty(repository, target, token));
     }
 
-    // Check if secret already exists
-    const isUpdate = name in existingSecrets;
+    // Protected environments need the user's confirmation first
+    if (guard) {
+      for (const target of targets) {
+        const refused = await guard.confirmWrite({
+          repository,
+          environment: target,
+          keys: keys.map((key) => ({
+            name: key,
+            action: key in existing.get(target)! ? ('overwrite' as const) : ('create' as const),
+          })),
+        });
+        if (refused) {
+          return refused;
+        }
+      }
+    }
 
-    // Add/update the secret
-    existingSecrets[name] = secretValue;
+    // Add/update the secret in each environment
+    const written: string[] = [];
+    for (const target of targets) {
+      try {
+        // Push to vault (API expects Record<string, string>)
+        await pushSecrets(
+          repository,
+          target,
+          { ...existing.get(target)!, ...generated.get(target)!.values },
+          token
+        );
+        written.push(target);
+      } catch (error) {
+        if (targets.length === 1) {
+          throw error;
+        }
+        const message = error instanceof Error ? error.message : 'Unknown error';
+
+        // Restore the environments that were already written
+        const notRestored: string[] = [];
+        for (const done of written) {
+          try {
+            await pushSecrets(repository, done, existing.get(done)!, token);
+          } catch {
+            notRestored.push(done);
+          }
+        }
+
+        let text = `Error generating secret in "${target}": ${message}.`;
+        if (notRestored.length > 0) {
+          text += ` Rollback failed for ${notRestored.map((e) => `"${e}"`).join(', ')}: they now contain the new value.`;
+        } else if (written.length > 0) {
+          text += ` Rolled back ${written.map((e) => `"${e}"`).join(', ')}. Nothing was changed.`;
+        } else {
+          text += ' Nothing was changed.';
+        }
+        return {
+          content: [{ type: 'text', text }],
+          isError: true,
+        };
+      }
+    }
 
-    // Push to vault (API expects Record<string, string>)
-    await pushSecrets(repository, environment, existingSecrets, token);
+    const { entropyBits } = generated.get(targets[0])!;
+    const rows = targets.map((target) => {
+      const { values, publicKey } = generated.get(target)!;
+      const value = Object.values(values)[0];
+      return {
+        environment: target,
+        action: keys.some((key) => key in existing.get(target)!)
+          ? ('updated' as const)
+          : ('created' as const),
+        length: value.length,
+        preview: maskSecret(value),
+        ...(publicKey !== undefined && { publicKey }),
+      };
+    });
+    const isKeyPair = isKeyPairType(type);
+
+    if (environments === undefined) {
+      const [{ environment: target, action, length: valueLength, preview, publicKey }] = rows;
+      const response = {
+        success: true,
+        action,
+        name,
+        type,
+        length: valueLength,
+        entropyBits,
+        preview,
+        environment: target,
+        repository,
+        // The public half of a key pair is not sensitive, so it is returned for registration
+        ...(publicKey !== undefined && { keys, publicKey, publicKeyFormat }),
+        message: isKeyPair
+          ? `Key pair "${name}" ${action} (${type}, ${entropyBits}-bit security). The private key is stored as ${keys[0]} and was never exposed in this conversation; the public key is stored as ${keys[1]} and included in this response.`
+          : `Secret "${name}" ${action} with a secure ${type} value (${entropyBits} bits of entropy). The actual value is stored in Keyway and was never exposed in this conversation.`,
+      };
+
+      return jsonResult(response);
+    }
 
+    const summary = rows.map((row) => `${row.environment}: ${row.action}`).join(', ');
     const response = {
       success: true,
-      action: isUpdate ? 'updated' : 'created',
       name,
       type,
-      length: secretValue.length,
-      preview: maskSecret(secretValue),
-      environment,
+      entropyBits,
       repository,
-      message: `Secret "${name}" ${isUpdate ? 'updated' : 'created'} with a secure ${type} value. The actual value is stored in Keyway and was never exposed in this conversation.`,
+      ...(isKeyPair && { keys, publicKeyFormat }),
+      environments: rows,
+      message: isKeyPair
+        ? `Key pair "${name}" generated independently for ${targets.length} environments (${summary}). The private keys are stored as ${keys[0]} and were never exposed in this conversation; the public keys are stored as ${keys[1]} and included in this response.`
+        : `Secret "${name}" generated with an independent ${type} value for each of ${targets.length} environments (${summary}, ${entropyBits} bits of entropy each). The actual values are stored in Keyway and were never exposed in this conversation.`,
     };
 
-    return {
-      content: [{ type: 'text', text: JSON.stringify(response, null, 2) }],
-      isError: false,
-    };
+    return jsonResult(response);
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
     return {
@@ -0,0 +1,158 @@
+/**
+ * keyway_import_env tool
+ * Imports secrets from a local .env file into the vault
+ * Values are read locally and pushed directly - only key names are returned
+ */
+
+import { readFileSync, statSync } from 'fs';
+import { resolve } from 'path';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { getToken } from '../utils/auth.js';
+import { getRepository } from '../utils/git.js';
+import { pullSecretsOrEmpty, pushSecrets } from '../utils/api.js';
+import { parseEnvContent } from '../utils/env-parser.js';
+import { filterKeys } from '../utils/patterns.js';
+import { errorResult, jsonResult } from '../utils/result.js';
+import { isSecretName } from '../utils/secret-name.js';
+import type { WriteGuard } from '../utils/protection.js';
+
+const MAX_FILE_BYTES = 1024 * 1024; // 1 MB max .env file
+
+interface ImportEnvArgs {
+  path: string;
+  environment?: string;
+  include?: string[];
+  exclude?: string[];
+  dryRun?: boolean;
+}
+
+export const importEnvOutputSchema = {
+  success: z.boolean(),
+  dryRun: z.boolean(),
+  path: z.string(),
+  environment: z.string(),
+  repository: z.string(),
+  created: z.array(z.string()),
+  updated: z.array(z.string()),
+  unchanged: z.array(z.string()),
+  skipped: z.array(z.string()),
+  stats: z.object({
+    created: z.number(),
+    updated: z.number(),
+    unchanged: z.number(),
+    skipped: z.number(),
+  }),
+  message: z.string(),
+};
+
+export async function importEnv(args: ImportEnvArgs, guard?: WriteGuard): Promise<CallToolResult> {
+  const { environment = 'development', include, exclude, dryRun = false } = args;
+
+  if (!args.path) {
+    return errorResult('Error: path is required');
+  }
+
+  const filePath = resolve(args.path);
+
+  // Validate file exists
+  try {
+    const stats = statSync(filePath);
+    if (!stats.isFile()) {
+      return errorResult(`Error: ${filePath} is not a file`);
+    }
+    if (stats.size > MAX_FILE_BYTES) {
+      return errorResult(`Error: ${filePath} is larger than 1MB`);
+    }
+  } catch {
+    return errorResult(`Error: File does not exist: ${filePath}`);
+  }
+
+  try {
+    const fileSecrets = parseEnvContent(readFileSync(filePath, 'utf-8'));
+    const selected = filterKeys(Object.keys(fileSecrets), include, exclude);
+
+    const token = await getToken();
+    const repository = getRepository();
+
+    // Pull existing secrets
+    const existingSecrets = await pullSecretsOrEmpty(repository, environment, token);
+
+    // Categorize keys against the vault
+    const created: string[] = [];
+    const updated: string[] = [];
+    const unchanged: string[] = [];
+    const skipped: string[] = [];
+
+    for (const key of selected.sort()) {
+      if (!isSecretName(key)) {
+        skipped.push(key);
+      } else if (!(key in existingSecrets)) {
+        created.push(key);
+      } else if (existingSecrets[key] !== fileSecrets[key]) {
+        updated.push(key);
+      } else {
+        unchanged.push(key);
+      }
+    }
+
+    const changes = [...created, ...updated];
+
+    if (!dryRun && changes.length > 0) {
+      // Protected environments need the user's confirmation first
+      if (guard) {
+        const refused = await guard.confirmWrite({
+          repository,
+          environment,
+          keys: [
+            ...created.map((name) => ({ name, action: 'create' as const })),
+            ...updated.map((name) => ({ name, action: 'overwrite' as const })),
+          ],
+        });
+        if (refused) {
+          return refused;
+        }
+      }
+
+      const merged = { ...existingSecrets };
+      for (const key of changes) {
+        merged[key] = fileSecrets[key];
+      }
+      await pushSecrets(repository, environment, merged, token);
+    }
+
+    let message: string;
+    if (changes.length === 0) {
+      message = `Nothing to import: all ${unchanged.length} selected keys already match "${environment}"`;
+    } else if (dryRun) {
+      message = `Dry run: would create ${created.length} and update ${updated.length} secrets in "${environment}". Run again without dryRun to apply.`;
+    } else {
+      message = `Imported ${changes.length} secrets into "${environment}" (${created.length} created, ${updated.length} updated). Values were never exposed in this conversation.`;
+    }
+    if (skipped.length > 0) {
+      message += ` Skipped ${skipped.length} keys with invalid names (must be UPPERCASE_WITH_UNDERSCORES).`;
+    }
+
+    return jsonResult({
+      success: true,
+      dryRun,
+      path: filePath,
+      environment,
+      repository,
+      created,
+      updated,
+      unchanged,
+      skipped,
+      stats: {
+        created: created.length,
+        updated: updated.length,
+        unchanged: unchanged.length,
+        skipped: skipped.length,
+      },
+      message,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return errorResult(`Error importing secrets: ${message}`);
+  }
+}
@@ -5,20 +5,60 @@
 
 import { spawn } from 'child_process';
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
 import { getToken } from '../utils/auth.js';
 import { getRepository } from '../utils/git.js';
 import { pullSecrets } from '../utils/api.js';
 import { parseEnvContent } from '../utils/env-parser.js';
+import { resolveSecrets } from '../utils/interpolate.js';
+import { jsonResult } from '../utils/result.js';
 
-const DEFAULT_TIMEOUT_MS = 300000; // 5 minutes
+export const DEFAULT_TIMEOUT_MS = 300000; // 5 minutes
 const MAX_OUTPUT_BYTES = 1024 * 1024; // 1 MB max output
 const TRUNCATION_MESSAGE = '\n\n[Output truncated - exceeded 1MB limit]';
 
+export const injectRunOutputSchema = {
+  exitCode: z.number(),
+  stdout: z.string(),
+  stderr: z.string(),
+  secretsInjected: z.number(),
+  warnings: z.array(z.string()).optional(),
+};
+
+/**
+ * Forms of a secret value that are masked in output: the raw value and its common encodings
+ */
+function maskedForms(value: string): string[] {
+  const forms = [value];
+
+  // Also mask common encodings if the value is long enough to be meaningful
+  if (value.length >= 4) {
+    // URL-encoded version
+    try {
+      const urlEncoded = encodeURIComponent(value);
+      if (urlEncoded !== value) {
+        forms.push(urlEncoded);
+      }
+    } catch {
+      // Ignore encoding errors
+    }
+
+    // Base64-encoded version (only for values that look like they could be encoded)
+    try {
+      forms.push(Buffer.from(value).toString('base64'));
+    } catch {
+      // Ignore encoding errors
+    }
+  }
+
+  return forms;
+}
+
 /**
  * Mask secret values in output text
  * Security: Masks all secrets regardless of length, and handles common encodings
  */
-function maskSecrets(text: string, secrets: Record<string, string>): string {
+export function maskSecrets(text: string, secrets: Record<string, string>): string {
   if (!text) return text;
 
   let masked = text;
@@ -26,32 +66,35 @@ function maskSecrets(text: string, secrets: Record<string, string>): string {
   for (const value of Object.values(secrets)) {
     if (!value) continue;
 
-    // Mask the raw value
-    masked = masked.replaceAll(value, '***REDACTED***');
+    for (const form of maskedForms(value)) {
+      masked = masked.replaceAll(form, '***REDACTED***');
+    }
+  }
 
-    // Also mask common encodings if the value is long enough to be meaningful
-    if (value.length >= 4) {
-      // URL-encoded version
-      try {
-        const urlEncoded = encodeURIComponent(value);
-        if (urlEncoded !== value) {
-          masked = masked.replaceAll(urlEncoded, '***REDACTED***');
-        }
-      } catch {
-        // Ignore encoding errors
-      }
+  return masked;
+}
+
+/**
+ * Length of the longest end of text that is the start of a value maskSecrets replaces
+ * Output streamed in chunks holds this much back, since the secret may continue in the next chunk
+ */
+export function partialSecretLength(text: string, secrets: Record<string, string>): number {
+  let longest = 0;
 
-      // Base64-encoded version (only for values that look like they could be encoded)
-      try {
-        const base64Encoded = Buffer.from(value).toString('base64');
-        masked = masked.replaceAll(base64Encoded, '***REDACTED***');
-      } catch {
-        // Ignore encoding errors
+  for (const value of Object.values(secrets)) {
+    if (!value) continue;
+
+    for (const form of maskedForms(value)) {
+      for (let length = Math.min(form.length - 1, text.length); length > longest; length--) {
+        if (text.endsWith(form.slice(0, length))) {
+          longest = length;
+          break;
+        }
       }
     }
   }
 
-  return masked;
+  return longest;
 }
 
 /**
@@ -75,41 +118,30 @@ function truncateOutput(text: string, maxBytes: number): { text: string; truncat
   return { text: truncated + TRUNCATION_MESSAGE, truncated: true };
 }
 
-export async function injectRun(args: {
-  command: string;
-  args?: string[];
-  environment?: string;
-  timeout?: number;
-}): Promise<CallToolResult> {
-  // Validate command is not empty
-  if (!args.command || !args.command.trim()) {
-    return {
-      content: [{ type: 'text', text: 'Error: command is required' }],
-      isError: true,
-    };
-  }
-
-  const token = await getToken();
-  const repository = getRepository();
-  const environment = args.environment || 'development';
-  const timeout = Math.min(args.timeout || DEFAULT_TIMEOUT_MS, DEFAULT_TIMEOUT_MS); // Cap at 5 min
-
-  // Pull secrets
-  const content = await pullSecrets(repository, environment, token);
-  const secrets = parseEnvContent(content);
+export interface CommandResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  stdoutTruncated: boolean;
+  stderrTruncated: boolean;
+}
 
+/**
+ * Run a command with secrets injected as environment variables
+ * Output is truncated and every secret value is masked before it is returned
+ */
+export function runWithSecrets(
+  command: string,
+  args: string[],
+  secrets: Record<string, string>,
+  timeout: number
+): Promise<CommandResult> {
   // Merge secrets with current environment
   const env = { ...process.env, ...secrets };
 
   // Run command with secrets injected
-  const result = await new Promise<{
-    exitCode: number;
-    stdout: string;
-    stderr: string;
-    stdoutTruncated: boolean;
-    stderrTruncated: boolean;
-  }>((resolve, reject) => {
-    const child = spawn(args.command, args.args || [], {
+  return new Promise<CommandResult>((resolve, reject) => {
+    const child = spawn(command, args, {
       cwd: process.cwd(),
       env,
       shell: false, // Prevent shell injection
@@ -164,6 +196,43 @@ export async function injectRun(args: {
       reject(new Error(`Failed to execute command: ${err.message}`));
     });
   });
+}
+
+export async function injectRun(args: {
+  command: string;
+  args?: string[];
+  environment?: string;
+  timeout?: number;
+}): Promise<CallToolResult> {
+  // Validate command is not empty
+  if (!args.command || !args.command.trim()) {
+    return {
+      content: [{ type: 'text', text: 'Error: command is required' }],
+      isError: true,
+    };
+  }
+
+  const token = await getToken();
+  const repository = getRepository();
+  const environment = args.environment || 'development';
+  const timeout = Math.min(args.timeout || DEFAULT_TIMEOUT_MS, DEFAULT_TIMEOUT_MS); // Cap at 5 min
+
+  // Pull secrets and resolve derived ones
+  const content = await pullSecrets(repository, environment, token);
+  let secrets: Record<string, string>;
+  let warnings: string[];
+  try {
+    ({ values: secrets, warnings } = resolveSecrets(parseEnvContent(content)));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      content: [{ type: 'text', text: `Error resolving secrets: ${message}` }],
+      isError: true,
+    };
+  }
+
+  // Run command with secrets injected
+  const result = await runWithSecrets(args.command, args.args || [], secrets, timeout);
 
   const response: Record<string, unknown> = {
     exitCode: result.exitCode,
@@ -173,23 +242,15 @@ export async function injectRun(args: {
   };
 
   // Include truncation warnings if applicable
-  if (result.stdoutTruncated || result.stderrTruncated) {
-    response.warnings = [];
-    if (result.stdoutTruncated) {
-      (response.warnings as string[]).push('stdout was truncated (exceeded 1MB)');
-    }
-    if (result.stderrTruncated) {
-      (response.warnings as string[]).push('stderr was truncated (exceeded 1MB)');
-    }
+  if (result.stdoutTruncated) {
+    warnings.push('stdout was truncated (exceeded 1MB)');
+  }
+  if (result.stderrTruncated) {
+    warnings.push('stderr was truncated (exceeded 1MB)');
+  }
+  if (warnings.length > 0) {
+    response.warnings = warnings;
   }
 
-  return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify(response, null, 2),
-      },
-    ],
-    isError: result.exitCode !== 0,
-  };
+  return jsonResult(response, result.exitCode !== 0);
 }
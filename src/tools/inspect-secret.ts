@@ -0,0 +1,173 @@
+/**
+ * keyway_inspect_secret tool
+ * Answers questions about a secret (format, provider, live/test mode) without revealing it
+ * Only facts derived from the value are returned, never the value itself
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { getToken } from '../utils/auth.js';
+import { getRepository } from '../utils/git.js';
+import { getSecretValue } from '../utils/api.js';
+import { errorResult, jsonResult } from '../utils/result.js';
+import { isSecretName } from '../utils/secret-name.js';
+import { shannonEntropy, totalEntropyBits } from '../utils/entropy.js';
+import { identifySecret } from './scan.js';
+
+const formatSchema = z.object({
+  type: z.enum(['pem', 'url', 'jwt', 'uuid', 'hex', 'base64', 'text']),
+  scheme: z.string().optional(),
+  host: z.string().optional(),
+  port: z.string().optional(),
+  hasCredentials: z.boolean().optional(),
+  algorithm: z.string().optional(),
+  label: z.string().optional(),
+});
+
+type FormatInfo = z.infer<typeof formatSchema>;
+
+export const inspectSecretOutputSchema = {
+  name: z.string(),
+  environment: z.string(),
+  repository: z.string(),
+  length: z.number(),
+  characterClasses: z.object({
+    lowercase: z.boolean(),
+    uppercase: z.boolean(),
+    digits: z.boolean(),
+    symbols: z.boolean(),
+    whitespace: z.boolean(),
+  }),
+  entropy: z.object({
+    bitsPerChar: z.number(),
+    totalBits: z.number(),
+  }),
+  format: formatSchema,
+  provider: z.string().nullable(),
+  mode: z.enum(['live', 'test']).nullable(),
+};
+
+// Prefixes that encode the key mode (Stripe sk_live_/sk_test_, Clerk, Mollie live_/test_, ...)
+const MODE_PATTERN = /^(?:[a-z]+_)?(live|test)_/;
+
+/**
+ * Decode the header of a JWT, or return null if the value is not a JWT
+ * The header only holds metadata (alg, typ), never claims
+ */
+function decodeJwtHeader(value: string): { alg?: string } | null {
+  const parts = value.split('.');
+  if (parts.length !== 3 || !parts.every((part) => /^[A-Za-z0-9_-]+$/.test(part))) {
+    return null;
+  }
+  try {
+    const header = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf-8'));
+    return header && typeof header === 'object' && 'alg' in header ? header : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Detect the format of a secret value
+ * URLs are reduced to scheme, host and port; credentials, path and query are dropped
+ */
+function detectFormat(value: string): FormatInfo {
+  const trimmed = value.trim();
+
+  const pem = trimmed.match(/^-----BEGIN ([A-Z0-9 ]+)-----/);
+  if (pem) {
+    return { type: 'pem', label: pem[1] };
+  }
+
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)) {
+    try {
+      const url = new URL(trimmed);
+      return {
+        type: 'url',
+        scheme: url.protocol.replace(/:$/, ''),
+        host: url.hostname,
+        ...(url.port && { port: url.port }),
+        hasCredentials: Boolean(url.username || url.password),
+      };
+    } catch {
+      // Not a parseable URL, keep looking
+    }
+  }
+
+  const jwtHeader = decodeJwtHeader(trimmed);
+  if (jwtHeader) {
+    return { type: 'jwt', ...(typeof jwtHeader.alg === 'string' && { algorithm: jwtHeader.alg }) };
+  }
+
+  if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(trimmed)) {
+    return { type: 'uuid' };
+  }
+
+  if (/^[0-9a-f]+$/i.test(trimmed) && trimmed.length % 2 === 0) {
+    return { type: 'hex' };
+  }
+
+  if (
+    trimmed.length >= 16 &&
+    (/^[A-Za-z0-9+/]+={0,2}$/.test(trimmed) || /^[A-Za-z0-9_-]+$/.test(trimmed)) &&
+    /[A-Z]/.test(trimmed) &&
+    /[a-z]/.test(trimmed) &&
+    /[0-9]/.test(trimmed)
+  ) {
+    return { type: 'base64' };
+  }
+
+  return { type: 'text' };
+}
+
+export async function inspectSecret(args: {
+  name: string;
+  environment?: string;
+}): Promise<CallToolResult> {
+  const { name, environment = 'development' } = args;
+
+  if (!isSecretName(name)) {
+    return errorResult(
+      `Error: Invalid secret name "${name}". Names must be UPPERCASE_WITH_UNDERSCORES`
+    );
+  }
+
+  try {
+    const token = await getToken();
+    const repository = getRepository();
+
+    const { value } = await getSecretValue(repository, environment, name, token);
+
+    const bitsPerChar = shannonEntropy(value);
+    const mode = (value.match(MODE_PATTERN)?.[1] as 'live' | 'test' | undefined) ?? null;
+
+    // The catalogue only lists live keys; test keys share the same shape
+    const provider =
+      identifySecret(value) ??
+      (mode === 'test' ? identifySecret(value.replace('test_', 'live_')) : null);
+
+    return jsonResult({
+      name,
+      environment,
+      repository,
+      length: value.length,
+      characterClasses: {
+        lowercase: /[a-z]/.test(value),
+        uppercase: /[A-Z]/.test(value),
+        digits: /[0-9]/.test(value),
+        symbols: /[^a-zA-Z0-9\s]/.test(value),
+        whitespace: /\s/.test(value),
+      },
+      entropy: {
+        bitsPerChar: Math.round(bitsPerChar * 100) / 100,
+        totalBits: totalEntropyBits(value),
+      },
+      format: detectFormat(value),
+      provider,
+      mode,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return errorResult(`Error inspecting secret: ${message}`);
+  }
+}
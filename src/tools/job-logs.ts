@@ -0,0 +1,49 @@
+/**
+ * keyway_job_logs tool
+ * Reads the output of a background job, with every secret value masked
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { errorResult, jsonResult } from '../utils/result.js';
+import type { JobRegistry } from '../utils/jobs.js';
+
+export const jobLogsOutputSchema = {
+  jobId: z.string(),
+  status: z.enum(['running', 'exited', 'stopped']),
+  output: z.string(),
+  offset: z.number(),
+  nextOffset: z.number(),
+  total: z.number(),
+  dropped: z.number(),
+};
+
+function isCount(value: number | undefined): boolean {
+  return value === undefined || (Number.isInteger(value) && value >= 0);
+}
+
+export async function jobLogs(
+  args: { jobId: string; offset?: number; tail?: number; limit?: number },
+  jobs: JobRegistry
+): Promise<CallToolResult> {
+  if (args.offset !== undefined && args.tail !== undefined) {
+    return errorResult('Error: offset and tail cannot be used together');
+  }
+  for (const name of ['offset', 'tail', 'limit'] as const) {
+    if (!isCount(args[name])) {
+      return errorResult(`Error: ${name} must be a non-negative integer`);
+    }
+  }
+
+  const job = jobs.get(args.jobId);
+  const logs = jobs.logs(args.jobId, args);
+  if (!job || !logs) {
+    return errorResult(`Error: Job "${args.jobId}" not found`);
+  }
+
+  return jsonResult({
+    jobId: job.id,
+    status: job.status,
+    ...logs,
+  });
+}
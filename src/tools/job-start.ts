@@ -0,0 +1,81 @@
+/**
+ * keyway_job_start tool
+ * Starts a long-running command with secrets injected, without waiting for it to exit
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { getToken } from '../utils/auth.js';
+import { getRepository } from '../utils/git.js';
+import { pullSecrets } from '../utils/api.js';
+import { parseEnvContent } from '../utils/env-parser.js';
+import { resolveSecrets } from '../utils/interpolate.js';
+import { errorResult, jsonResult } from '../utils/result.js';
+import type { JobRegistry } from '../utils/jobs.js';
+import { maskSecrets, partialSecretLength } from './inject-run.js';
+
+export const jobStartOutputSchema = {
+  jobId: z.string(),
+  pid: z.number().nullable(),
+  command: z.string(),
+  args: z.array(z.string()),
+  environment: z.string(),
+  secretsInjected: z.number(),
+  warnings: z.array(z.string()).optional(),
+  status: z.enum(['running', 'exited', 'stopped']),
+  message: z.string(),
+};
+
+export async function jobStart(
+  args: {
+    command: string;
+    args?: string[];
+    environment?: string;
+  },
+  jobs: JobRegistry
+): Promise<CallToolResult> {
+  if (!args.command || !args.command.trim()) {
+    return errorResult('Error: command is required');
+  }
+
+  const token = await getToken();
+  const repository = getRepository();
+  const environment = args.environment || 'development';
+
+  // Pull secrets and resolve derived ones
+  const content = await pullSecrets(repository, environment, token);
+  let secrets: Record<string, string>;
+  let warnings: string[];
+  try {
+    ({ values: secrets, warnings } = resolveSecrets(parseEnvContent(content)));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return errorResult(`Error resolving secrets: ${message}`);
+  }
+
+  try {
+    const job = await jobs.start({
+      command: args.command,
+      args: args.args || [],
+      environment,
+      secrets,
+      mask: (text) => maskSecrets(text, secrets),
+      partialSecretLength: (text) => partialSecretLength(text, secrets),
+    });
+
+    return jsonResult({
+      jobId: job.id,
+      pid: job.pid,
+      command: job.command,
+      args: job.args,
+      environment,
+      secretsInjected: Object.keys(secrets).length,
+      ...(warnings.length > 0 && { warnings }),
+      status: job.status,
+      message: `Started job ${job.id}. Use keyway_job_logs to read its output and keyway_job_stop to stop it.`,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return errorResult(`Error starting job: ${message}`);
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * keyway_job_status tool
+ * Reports the state of one background job, or of every job of this session
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { errorResult, jsonResult } from '../utils/result.js';
+import { jobInfoSchema, type JobRegistry } from '../utils/jobs.js';
+
+export const jobStatusOutputSchema = {
+  jobs: z.array(jobInfoSchema),
+  running: z.number(),
+};
+
+export async function jobStatus(
+  args: { jobId?: string },
+  jobs: JobRegistry
+): Promise<CallToolResult> {
+  let list = jobs.list();
+
+  if (args.jobId) {
+    const job = jobs.get(args.jobId);
+    if (!job) {
+      return errorResult(`Error: Job "${args.jobId}" not found`);
+    }
+    list = [job];
+  }
+
+  return jsonResult({
+    jobs: list,
+    running: list.filter((job) => job.status === 'running').length,
+  });
+}
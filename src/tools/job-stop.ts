@@ -0,0 +1,35 @@
+/**
+ * keyway_job_stop tool
+ * Stops a background job with SIGTERM, then SIGKILL after a grace period
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { errorResult, jsonResult } from '../utils/result.js';
+import { DEFAULT_STOP_TIMEOUT_MS, jobInfoSchema, type JobRegistry } from '../utils/jobs.js';
+
+const MAX_STOP_TIMEOUT_MS = 60000;
+
+export const jobStopOutputSchema = {
+  job: jobInfoSchema,
+  message: z.string(),
+};
+
+export async function jobStop(
+  args: { jobId: string; timeout?: number },
+  jobs: JobRegistry
+): Promise<CallToolResult> {
+  const timeout = Math.min(args.timeout || DEFAULT_STOP_TIMEOUT_MS, MAX_STOP_TIMEOUT_MS);
+  const wasRunning = jobs.get(args.jobId)?.status === 'running';
+
+  const job = await jobs.stop(args.jobId, timeout);
+  if (!job) {
+    return errorResult(`Error: Job "${args.jobId}" not found`);
+  }
+
+  const message = wasRunning
+    ? `Stopped job ${job.id}${job.signal ? ` (${job.signal})` : ''}`
+    : `Job ${job.id} had already ${job.status}`;
+
+  return jsonResult({ job, message });
+}
@@ -4,22 +4,29 @@
  */
 
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
 import { getToken } from '../utils/auth.js';
 import { getRepository } from '../utils/git.js';
 import { getVaultEnvironments } from '../utils/api.js';
+import { jsonResult } from '../utils/result.js';
 
-export async function listEnvironments(): Promise<CallToolResult> {
+export const listEnvironmentsOutputSchema = {
+  repository: z.string(),
+  environments: z.array(z.string()),
+  count: z.number(),
+  exists: z.boolean().optional(),
+};
+
+export async function listEnvironments(args: { name?: string } = {}): Promise<CallToolResult> {
   const token = await getToken();
   const repository = getRepository();
 
   const environments = await getVaultEnvironments(repository, token);
 
-  return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify({ repository, environments, count: environments.length }, null, 2),
-      },
-    ],
-  };
+  return jsonResult({
+    repository,
+    environments,
+    count: environments.length,
+    ...(args.name !== undefined && { exists: environments.includes(args.name) }),
+  });
 }
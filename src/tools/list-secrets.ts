@@ -4,10 +4,22 @@
  */
 
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
 import { getToken } from '../utils/auth.js';
 import { getRepository } from '../utils/git.js';
 import { pullSecrets } from '../utils/api.js';
 import { parseEnvContent } from '../utils/env-parser.js';
+import { findDerivedKeys } from '../utils/interpolate.js';
+import { jsonResult } from '../utils/result.js';
+
+export const listSecretsOutputSchema = {
+  repository: z.string(),
+  environment: z.string(),
+  count: z.number(),
+  secrets: z.array(z.string()),
+  // Keys whose value is built from other secrets, e.g. DATABASE_URL=postgres://${DB_USER}@...
+  derived: z.array(z.string()),
+};
 
 export async function listSecrets(args: { environment?: string }): Promise<CallToolResult> {
   const token = await getToken();
@@ -18,16 +30,11 @@ export async function listSecrets(args: { environment?: string }): Promise<CallT
   const secrets = parseEnvContent(content);
   const keys = Object.keys(secrets).sort();
 
-  return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify(
-          { repository, environment, count: keys.length, secrets: keys },
-          null,
-          2
-        ),
-      },
-    ],
-  };
+  return jsonResult({
+    repository,
+    environment,
+    count: keys.length,
+    secrets: keys,
+    derived: findDerivedKeys(secrets),
+  });
 }
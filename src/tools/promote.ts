@@ -0,0 +1,172 @@
+/**
+ * keyway_promote tool
+ * Copies secrets from one environment to another (e.g., staging -> production)
+ * Values are copied server-side; the plan only shows masked previews
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { getToken } from '../utils/auth.js';
+import { getRepository } from '../utils/git.js';
+import { pullSecrets, pullSecretsOrEmpty, pushSecrets } from '../utils/api.js';
+import { parseEnvContent } from '../utils/env-parser.js';
+import { filterKeys, matchesAnyPattern } from '../utils/patterns.js';
+import { errorResult, jsonResult } from '../utils/result.js';
+import type { WriteGuard } from '../utils/protection.js';
+import { compareSecrets, diffEntrySchema, normalizeEnvName } from './diff.js';
+
+/**
+ * How keys that already exist in the target are handled
+ * - skip-existing: copy missing keys, leave existing ones untouched
+ * - overwrite: copy missing keys and replace differing ones
+ * - only-missing: copy missing keys, refuse the whole promotion if any key differs
+ */
+export type OverwritePolicy = 'skip-existing' | 'overwrite' | 'only-missing';
+
+const OVERWRITE_POLICIES: OverwritePolicy[] = ['skip-existing', 'overwrite', 'only-missing'];
+
+interface PromoteArgs {
+  source: string;
+  target: string;
+  keys: string[];
+  policy?: OverwritePolicy;
+  dryRun?: boolean;
+}
+
+export const promoteOutputSchema = {
+  success: z.boolean(),
+  dryRun: z.boolean(),
+  repository: z.string(),
+  source: z.string(),
+  target: z.string(),
+  policy: z.string(),
+  create: z.array(z.string()),
+  overwrite: z.array(diffEntrySchema),
+  skipped: z.array(diffEntrySchema),
+  unchanged: z.array(z.string()),
+  unmatched: z.array(z.string()),
+  stats: z.object({
+    created: z.number(),
+    overwritten: z.number(),
+    skipped: z.number(),
+    unchanged: z.number(),
+  }),
+  message: z.string(),
+};
+
+export async function promote(args: PromoteArgs, guard?: WriteGuard): Promise<CallToolResult> {
+  const { keys, policy = 'skip-existing', dryRun = false } = args;
+
+  if (!args.source || !args.target) {
+    return errorResult('Error: Both source and target are required');
+  }
+
+  const source = normalizeEnvName(args.source);
+  const target = normalizeEnvName(args.target);
+
+  if (source === target) {
+    return errorResult('Error: Source and target must be different environments');
+  }
+
+  if (!keys || keys.length === 0) {
+    return errorResult('Error: At least one key or pattern is required (use "*" for all keys)');
+  }
+
+  if (!OVERWRITE_POLICIES.includes(policy)) {
+    return errorResult(
+      `Error: Invalid policy "${policy}". Valid policies: ${OVERWRITE_POLICIES.join(', ')}`
+    );
+  }
+
+  try {
+    const token = await getToken();
+    const repository = getRepository();
+
+    const sourceSecrets = parseEnvContent(await pullSecrets(repository, source, token));
+
+    // Pull existing target secrets
+    const targetSecrets = await pullSecretsOrEmpty(repository, target, token);
+
+    const selected = filterKeys(Object.keys(sourceSecrets), keys);
+    const unmatched = keys.filter(
+      (pattern) => !Object.keys(sourceSecrets).some((key) => matchesAnyPattern(key, [pattern]))
+    );
+
+    // Plan: compare the selected keys only, so target-only keys are never touched
+    const pick = (secrets: Record<string, string>) =>
+      Object.fromEntries(
+        selected.filter((key) => key in secrets).map((key) => [key, secrets[key]])
+      );
+    const plan = compareSecrets(source, target, pick(sourceSecrets), pick(targetSecrets));
+
+    if (policy === 'only-missing' && plan.different.length > 0) {
+      return errorResult(
+        `Error: ${plan.different.map((entry) => entry.key).join(', ')} already exist in "${target}" with different values. Use the "skip-existing" or "overwrite" policy. Nothing was changed.`
+      );
+    }
+
+    const create = plan.onlyInEnv1;
+    const overwrite = policy === 'overwrite' ? plan.different : [];
+    const skipped = policy === 'overwrite' ? [] : plan.different;
+    const changes = [...create, ...overwrite.map((entry) => entry.key)];
+
+    if (!dryRun && changes.length > 0) {
+      // Protected environments need the user's confirmation first
+      if (guard) {
+        const refused = await guard.confirmWrite({
+          repository,
+          environment: target,
+          keys: [
+            ...create.map((name) => ({ name, action: 'create' as const })),
+            ...overwrite.map(({ key }) => ({ name: key, action: 'overwrite' as const })),
+          ],
+        });
+        if (refused) {
+          return refused;
+        }
+      }
+
+      const merged = { ...targetSecrets };
+      for (const key of changes) {
+        merged[key] = sourceSecrets[key];
+      }
+      await pushSecrets(repository, target, merged, token);
+    }
+
+    let message: string;
+    if (changes.length === 0) {
+      message = `Nothing to promote from "${source}" to "${target}"`;
+    } else if (dryRun) {
+      message = `Dry run: would create ${create.length} and overwrite ${overwrite.length} secrets in "${target}". Run again without dryRun to apply.`;
+    } else {
+      message = `Promoted ${changes.length} secrets from "${source}" to "${target}" (${create.length} created, ${overwrite.length} overwritten)`;
+    }
+    if (skipped.length > 0) {
+      message += `. Skipped ${skipped.length} existing keys with different values.`;
+    }
+
+    return jsonResult({
+      success: true,
+      dryRun,
+      repository,
+      source,
+      target,
+      policy,
+      create,
+      overwrite,
+      skipped,
+      unchanged: plan.same,
+      unmatched,
+      stats: {
+        created: create.length,
+        overwritten: overwrite.length,
+        skipped: skipped.length,
+        unchanged: plan.same.length,
+      },
+      message,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return errorResult(`Error promoting secrets: ${message}`);
+  }
+}
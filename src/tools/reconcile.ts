@@ -0,0 +1,145 @@
+/**
+ * keyway_reconcile tool
+ * Applies the differences reported by keyway_diff to bring one environment in line with another
+ * The plan is a DiffResult, so values only appear as masked previews
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { getToken } from '../utils/auth.js';
+import { getRepository } from '../utils/git.js';
+import { pullSecrets, pullSecretsOrEmpty, pushSecrets } from '../utils/api.js';
+import { parseEnvContent } from '../utils/env-parser.js';
+import { errorResult, jsonResult } from '../utils/result.js';
+import type { WriteGuard } from '../utils/protection.js';
+import { compareSecrets, diffResultSchema, diffStatsSchema, normalizeEnvName } from './diff.js';
+
+export type ReconcileDirection = 'env1-to-env2' | 'env2-to-env1';
+
+interface ReconcileArgs {
+  env1: string;
+  env2: string;
+  direction: ReconcileDirection;
+  addMissing?: boolean;
+  copyDifferent?: boolean;
+  deleteExtra?: boolean;
+  dryRun?: boolean;
+}
+
+export const reconcileOutputSchema = {
+  success: z.boolean(),
+  dryRun: z.boolean(),
+  repository: z.string(),
+  source: z.string(),
+  target: z.string(),
+  plan: diffResultSchema,
+  added: z.array(z.string()),
+  updated: z.array(z.string()),
+  deleted: z.array(z.string()),
+  before: diffStatsSchema,
+  after: diffStatsSchema,
+  message: z.string(),
+};
+
+export async function reconcile(args: ReconcileArgs, guard?: WriteGuard): Promise<CallToolResult> {
+  const {
+    direction,
+    addMissing = true,
+    copyDifferent = false,
+    deleteExtra = false,
+    dryRun = false,
+  } = args;
+
+  if (!args.env1 || !args.env2) {
+    return errorResult('Error: Both env1 and env2 are required');
+  }
+
+  if (direction !== 'env1-to-env2' && direction !== 'env2-to-env1') {
+    return errorResult('Error: direction must be "env1-to-env2" or "env2-to-env1"');
+  }
+
+  const env1 = normalizeEnvName(args.env1);
+  const env2 = normalizeEnvName(args.env2);
+
+  if (env1 === env2) {
+    return errorResult('Error: Cannot reconcile an environment with itself');
+  }
+
+  const [source, target] = direction === 'env1-to-env2' ? [env1, env2] : [env2, env1];
+
+  try {
+    const token = await getToken();
+    const repository = getRepository();
+
+    const sourceSecrets = parseEnvContent(await pullSecrets(repository, source, token));
+
+    // Pull existing target secrets
+    const targetSecrets = await pullSecretsOrEmpty(repository, target, token);
+
+    // The plan is always reported source-first, whatever the direction
+    const plan = compareSecrets(source, target, sourceSecrets, targetSecrets);
+
+    const added = addMissing ? plan.onlyInEnv1 : [];
+    const updated = copyDifferent ? plan.different.map((entry) => entry.key) : [];
+    const deleted = deleteExtra ? plan.onlyInEnv2 : [];
+
+    const reconciled = { ...targetSecrets };
+    for (const key of [...added, ...updated]) {
+      reconciled[key] = sourceSecrets[key];
+    }
+    for (const key of deleted) {
+      delete reconciled[key];
+    }
+
+    const changeCount = added.length + updated.length + deleted.length;
+
+    if (!dryRun && changeCount > 0) {
+      // Protected environments need the user's confirmation first
+      if (guard) {
+        const refused = await guard.confirmWrite({
+          repository,
+          environment: target,
+          keys: [
+            ...added.map((name) => ({ name, action: 'create' as const })),
+            ...updated.map((name) => ({ name, action: 'overwrite' as const })),
+            ...deleted.map((name) => ({ name, action: 'delete' as const })),
+          ],
+        });
+        if (refused) {
+          return refused;
+        }
+      }
+
+      await pushSecrets(repository, target, reconciled, token);
+    }
+
+    const after = compareSecrets(source, target, sourceSecrets, reconciled).stats;
+
+    let message: string;
+    if (changeCount === 0) {
+      message = `Nothing to reconcile in "${target}" with the selected actions`;
+    } else if (dryRun) {
+      message = `Dry run: would add ${added.length}, update ${updated.length} and delete ${deleted.length} secrets in "${target}". Run again without dryRun to apply.`;
+    } else {
+      message = `Reconciled "${target}" with "${source}": ${added.length} added, ${updated.length} updated, ${deleted.length} deleted`;
+    }
+
+    return jsonResult({
+      success: true,
+      dryRun,
+      repository,
+      source,
+      target,
+      plan,
+      added,
+      updated,
+      deleted,
+      before: plan.stats,
+      after,
+      message,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return errorResult(`Error reconciling environments: ${message}`);
+  }
+}
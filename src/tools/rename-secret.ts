@@ -0,0 +1,203 @@
+/**
+ * keyway_rename_secret tool
+ * Renames a secret in every environment of the vault
+ * Values are moved server-side and never exposed; changed environments are rolled back on failure
+ * Derived secrets that reference the old name are updated in the same write
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { getToken } from '../utils/auth.js';
+import { getRepository } from '../utils/git.js';
+import { getVaultEnvironments, pullSecrets, pushSecrets } from '../utils/api.js';
+import { parseEnvContent } from '../utils/env-parser.js';
+import { findDependentKeys, renameReferences } from '../utils/interpolate.js';
+import { errorResult, jsonResult } from '../utils/result.js';
+import { isSecretName } from '../utils/secret-name.js';
+import type { WriteGuard } from '../utils/protection.js';
+import { findEnvVarReferences, type EnvVarReference } from './validate.js';
+
+interface RenameSecretArgs {
+  from: string;
+  to: string;
+  findReferences?: boolean;
+  path?: string;
+}
+
+export const renameSecretOutputSchema = {
+  success: z.boolean(),
+  from: z.string(),
+  to: z.string(),
+  repository: z.string(),
+  renamed: z.array(z.string()),
+  skipped: z.array(z.string()),
+  updatedReferences: z.array(z.string()),
+  references: z
+    .array(z.object({ file: z.string(), line: z.number(), text: z.string() }))
+    .optional(),
+  message: z.string(),
+};
+
+/**
+ * Replace a key, keeping its position in the environment, and rewrite references to it
+ */
+function renameKey(
+  secrets: Record<string, string>,
+  from: string,
+  to: string
+): Record<string, string> {
+  const renamed: Record<string, string> = {};
+  for (const [key, value] of Object.entries(secrets)) {
+    renamed[key === from ? to : key] = renameReferences(value, from, to);
+  }
+  return renamed;
+}
+
+export async function renameSecret(
+  args: RenameSecretArgs,
+  guard?: WriteGuard
+): Promise<CallToolResult> {
+  const { from, to, findReferences = false, path = process.cwd() } = args;
+
+  for (const name of [from, to]) {
+    if (!isSecretName(name)) {
+      return errorResult(
+        `Error: Invalid secret name "${name}". Names must be UPPERCASE_WITH_UNDERSCORES`
+      );
+    }
+  }
+
+  if (from === to) {
+    return errorResult('Error: The new name must be different from the old name');
+  }
+
+  let token: string;
+  let repository: string;
+  const original = new Map<string, Record<string, string>>();
+  const skipped: string[] = [];
+
+  // Read every environment before changing anything
+  try {
+    token = await getToken();
+    repository = getRepository();
+
+    const environments = await getVaultEnvironments(repository, token);
+    for (const environment of environments) {
+      // Every listed environment exists, so a failed pull aborts the whole rename
+      let secrets: Record<string, string>;
+      try {
+        secrets = parseEnvContent(await pullSecrets(repository, environment, token));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return errorResult(`Error reading "${environment}": ${message}. Nothing was changed.`);
+      }
+      if (from in secrets) {
+        original.set(environment, secrets);
+      } else {
+        skipped.push(environment);
+      }
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return errorResult(`Error renaming secret: ${message}`);
+  }
+
+  const targets = [...original.keys()];
+
+  if (targets.length === 0) {
+    return errorResult(`Error: ${from} does not exist in any environment of ${repository}`);
+  }
+
+  const conflicts = targets.filter((environment) => to in original.get(environment)!);
+  if (conflicts.length > 0) {
+    return errorResult(
+      `Error: ${to} already exists in ${conflicts.map((e) => `"${e}"`).join(', ')}. Delete it first or choose another name. Nothing was changed.`
+    );
+  }
+
+  // Protected environments need the user's confirmation first
+  if (guard) {
+    for (const environment of targets) {
+      const dependents = findDependentKeys(original.get(environment)!, [from]);
+      const refused = await guard.confirmWrite({
+        repository,
+        environment,
+        keys: [
+          { name: to, action: 'create' },
+          { name: from, action: 'delete' },
+          ...dependents.map((name) => ({ name, action: 'overwrite' as const })),
+        ],
+      });
+      if (refused) {
+        return refused;
+      }
+    }
+  }
+
+  const renamed: string[] = [];
+  for (const environment of targets) {
+    try {
+      await pushSecrets(
+        repository,
+        environment,
+        renameKey(original.get(environment)!, from, to),
+        token
+      );
+      renamed.push(environment);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      // Restore the environments that were already renamed
+      const notRestored: string[] = [];
+      for (const done of renamed) {
+        try {
+          await pushSecrets(repository, done, original.get(done)!, token);
+        } catch {
+          notRestored.push(done);
+        }
+      }
+
+      let text = `Error renaming secret in "${environment}": ${message}.`;
+      if (notRestored.length > 0) {
+        text += ` Rollback failed for ${notRestored.map((e) => `"${e}"`).join(', ')}: they now contain ${to} instead of ${from}.`;
+      } else if (renamed.length > 0) {
+        text += ` Rolled back ${renamed.map((e) => `"${e}"`).join(', ')}. Nothing was changed.`;
+      } else {
+        text += ' Nothing was changed.';
+      }
+      return errorResult(text);
+    }
+  }
+
+  let message = `Renamed ${from} to ${to} in ${renamed.length} environment${renamed.length > 1 ? 's' : ''}: ${renamed.join(', ')}`;
+
+  const updatedReferences = [
+    ...new Set(
+      targets.flatMap((environment) => findDependentKeys(original.get(environment)!, [from]))
+    ),
+  ].sort();
+  if (updatedReferences.length > 0) {
+    message += `. Updated references to ${from} in ${updatedReferences.join(', ')}`;
+  }
+
+  // Point the agent at code that still uses the old name
+  let references: EnvVarReference[] | undefined;
+  if (findReferences) {
+    references = findEnvVarReferences(from, path);
+    if (references.length > 0) {
+      message += `. ${references.length} code reference${references.length > 1 ? 's' : ''} to ${from} still need updating.`;
+    }
+  }
+
+  return jsonResult({
+    success: true,
+    from,
+    to,
+    repository,
+    renamed,
+    skipped,
+    updatedReferences,
+    references,
+    message,
+  });
+}
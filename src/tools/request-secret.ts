@@ -0,0 +1,119 @@
+/**
+ * keyway_request_secret tool
+ * Asks the user for a secret value via MCP elicitation and stores it in the vault
+ * The value goes straight from the user to Keyway and never enters the AI conversation
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { getToken } from '../utils/auth.js';
+import { getRepository } from '../utils/git.js';
+import { pullSecretsOrEmpty, pushSecrets } from '../utils/api.js';
+import { supportsElicitation } from '../utils/elicitation.js';
+import { errorResult, jsonResult } from '../utils/result.js';
+import { isSecretName } from '../utils/secret-name.js';
+
+export const requestSecretOutputSchema = {
+  success: z.boolean(),
+  name: z.string(),
+  environment: z.string(),
+  repository: z.string(),
+  action: z.enum(['created', 'updated']),
+  length: z.number(),
+};
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+export async function requestSecret(
+  args: { name: string; environment?: string; description?: string },
+  server: Server
+): Promise<CallToolResult> {
+  if (!isSecretName(args.name)) {
+    return errorResult(
+      `Invalid secret name "${args.name}". Name must be uppercase with underscores (e.g., DATABASE_URL, API_KEY)`
+    );
+  }
+
+  if (!supportsElicitation(server)) {
+    return errorResult(
+      'Error: This client does not support MCP elicitation, so the secret value cannot be requested from the user. Ask the user to set it with the Keyway CLI or dashboard instead.'
+    );
+  }
+
+  const token = await getToken();
+  const repository = getRepository();
+  const environment = args.environment || 'development';
+
+  // Pull existing secrets
+  let existingSecrets: Record<string, string>;
+  try {
+    existingSecrets = await pullSecretsOrEmpty(repository, environment, token);
+  } catch (error) {
+    return errorResult(
+      `Error reading "${environment}": ${errorMessage(error)}. Nothing was stored.`
+    );
+  }
+
+  const isUpdate = args.name in existingSecrets;
+  const purpose = args.description ? `\n\n${args.description}` : '';
+  const overwrite = isUpdate ? ' This will overwrite the existing value.' : '';
+
+  // Note: elicitation has no password field type, so masking is up to the client.
+  // The value is still only sent to this server, never to the model.
+  let result: Awaited<ReturnType<Server['elicitInput']>>;
+  try {
+    result = await server.elicitInput({
+      message: `Enter the value for "${args.name}" in "${environment}" (${repository}).${overwrite}${purpose}\n\nThe value is stored in Keyway and is never shown to the assistant.`,
+      requestedSchema: {
+        type: 'object',
+        properties: {
+          value: {
+            type: 'string',
+            title: args.name,
+            description: 'Secret value',
+            minLength: 1,
+          },
+          confirm: {
+            type: 'boolean',
+            title: 'Confirm',
+            description: `Store this value as ${args.name} in "${environment}"`,
+          },
+        },
+        required: ['value', 'confirm'],
+      },
+    });
+  } catch (error) {
+    return errorResult(
+      `Error asking the user for "${args.name}": ${errorMessage(error)}. Nothing was stored.`
+    );
+  }
+
+  const value = result.content?.value;
+  if (
+    result.action !== 'accept' ||
+    result.content?.confirm !== true ||
+    typeof value !== 'string' ||
+    !value
+  ) {
+    return errorResult(`The user did not provide a value for "${args.name}". Nothing was stored.`);
+  }
+
+  existingSecrets[args.name] = value;
+  try {
+    await pushSecrets(repository, environment, existingSecrets, token);
+  } catch (error) {
+    return errorResult(`Error storing "${args.name}" in "${environment}": ${errorMessage(error)}`);
+  }
+
+  return jsonResult({
+    success: true,
+    name: args.name,
+    environment,
+    repository,
+    action: isUpdate ? 'updated' : 'created',
+    length: value.length,
+  });
+}
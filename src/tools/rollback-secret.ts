@@ -0,0 +1,95 @@
+/**
+ * keyway_rollback_secret tool
+ * Restores a previous version of a secret without exposing its value
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { getToken } from '../utils/auth.js';
+import { getRepository } from '../utils/git.js';
+import { getSecretHistory, rollbackSecret as restoreVersion } from '../utils/api.js';
+import { errorResult, jsonResult } from '../utils/result.js';
+import { isSecretName } from '../utils/secret-name.js';
+import type { WriteGuard } from '../utils/protection.js';
+import { previewValue } from './diff.js';
+
+export const rollbackSecretOutputSchema = {
+  success: z.boolean(),
+  name: z.string(),
+  environment: z.string(),
+  repository: z.string(),
+  restoredVersion: z.number(),
+  newVersion: z.number(),
+  preview: z.string(),
+  message: z.string(),
+};
+
+export async function rollbackSecret(
+  args: { name: string; environment: string; version: number },
+  guard?: WriteGuard
+): Promise<CallToolResult> {
+  const { name, environment, version } = args;
+
+  if (!isSecretName(name)) {
+    return errorResult(
+      `Error: Invalid secret name "${name}". Names must be UPPERCASE_WITH_UNDERSCORES`
+    );
+  }
+
+  if (!environment) {
+    return errorResult('Error: Environment is required');
+  }
+
+  if (!Number.isInteger(version) || version < 1) {
+    return errorResult('Error: version must be a positive integer');
+  }
+
+  try {
+    const token = await getToken();
+    const repository = getRepository();
+
+    const history = await getSecretHistory(repository, environment, name, token);
+    const target = history.find((entry) => entry.version === version);
+
+    if (!target) {
+      const available = history.map((entry) => entry.version).join(', ') || 'none';
+      return errorResult(
+        `Error: ${name} has no version ${version} in "${environment}". Available versions: ${available}`
+      );
+    }
+
+    if (history[0].version === version) {
+      return errorResult(
+        `Error: Version ${version} is already the current value of ${name}. Nothing was changed.`
+      );
+    }
+
+    // Protected environments need the user's confirmation first
+    if (guard) {
+      const refused = await guard.confirmWrite({
+        repository,
+        environment,
+        keys: [{ name, action: 'overwrite' }],
+      });
+      if (refused) {
+        return refused;
+      }
+    }
+
+    const result = await restoreVersion(repository, environment, name, version, token);
+
+    return jsonResult({
+      success: true,
+      name,
+      environment,
+      repository,
+      restoredVersion: version,
+      newVersion: result.version,
+      preview: previewValue(target.value),
+      message: `Restored ${name} in "${environment}" to version ${version} (saved as version ${result.version})`,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return errorResult(`Error rolling back secret: ${message}`);
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * keyway_rotate_secret tool
+ * Rotates a secret in stages: generate, store (keeping the old value as <NAME>_PREVIOUS),
+ * verify with an optional command, and restore the old value if verification fails
+ * Only masked previews are ever returned
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { getToken } from '../utils/auth.js';
+import { getRepository } from '../utils/git.js';
+import { pullSecrets, pushSecrets } from '../utils/api.js';
+import { parseEnvContent } from '../utils/env-parser.js';
+import { resolveSecrets } from '../utils/interpolate.js';
+import { errorResult, jsonResult } from '../utils/result.js';
+import { isSecretName } from '../utils/secret-name.js';
+import type { WriteGuard } from '../utils/protection.js';
+import { checkGenerateOptions, generateSecret, SECRET_TYPES, type SecretType } from './generate.js';
+import { previewValue } from './diff.js';
+import { DEFAULT_TIMEOUT_MS, runWithSecrets } from './inject-run.js';
+
+interface RotateSecretArgs {
+  name: string;
+  environment?: string;
+  type?: SecretType;
+  length?: number;
+  verify?: {
+    command: string;
+    args?: string[];
+    timeout?: number;
+  };
+}
+
+type Stage = 'generate' | 'store' | 'verify' | 'restore';
+
+interface StageResult {
+  stage: Stage;
+  status: 'done' | 'failed';
+  detail: string;
+}
+
+export const rotateSecretOutputSchema = {
+  success: z.boolean(),
+  name: z.string(),
+  previousKey: z.string(),
+  environment: z.string(),
+  repository: z.string(),
+  type: z.string(),
+  preview: z.string(),
+  previousPreview: z.string(),
+  restored: z.boolean(),
+  stages: z.array(
+    z.object({
+      stage: z.enum(['generate', 'store', 'verify', 'restore']),
+      status: z.enum(['done', 'failed']),
+      detail: z.string(),
+    })
+  ),
+  verification: z
+    .object({
+      exitCode: z.number(),
+      stdout: z.string(),
+      stderr: z.string(),
+    })
+    .optional(),
+  warnings: z.array(z.string()).optional(),
+  message: z.string(),
+};
+
+export async function rotateSecret(
+  args: RotateSecretArgs,
+  guard?: WriteGuard
+): Promise<CallToolResult> {
+  const { name, environment = 'development', type = 'password', length = 32, verify } = args;
+  const previousKey = `${name}_PREVIOUS`;
+
+  if (!isSecretName(name)) {
+    return errorResult(
+      `Error: Invalid secret name "${name}". Names must be UPPERCASE_WITH_UNDERSCORES`
+    );
+  }
+
+  if (!SECRET_TYPES.includes(type)) {
+    return errorResult(`Error: Invalid type "${type}". Valid types: ${SECRET_TYPES.join(', ')}`);
+  }
+
+  if (length < 8 || length > 256) {
+    return errorResult('Error: Length must be between 8 and 256');
+  }
+
+  // Types such as template and custom need options that rotation does not take
+  const invalidOptions = checkGenerateOptions(type, {});
+  if (invalidOptions) {
+    return errorResult(`Error: ${invalidOptions}`);
+  }
+
+  if (verify && (!verify.command || !verify.command.trim())) {
+    return errorResult('Error: verify.command must not be empty');
+  }
+
+  let token: string;
+  let repository: string;
+  let original: Record<string, string>;
+
+  try {
+    token = await getToken();
+    repository = getRepository();
+    original = parseEnvContent(await pullSecrets(repository, environment, token));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return errorResult(`Error rotating secret: ${message}`);
+  }
+
+  if (!(name in original)) {
+    return errorResult(
+      `Error: ${name} does not exist in "${environment}". Use keyway_generate to create it.`
+    );
+  }
+
+  // Protected environments need the user's confirmation first
+  if (guard) {
+    const refused = await guard.confirmWrite({
+      repository,
+      environment,
+      keys: [
+        { name, action: 'overwrite' },
+        { name: previousKey, action: previousKey in original ? 'overwrite' : 'create' },
+      ],
+    });
+    if (refused) {
+      return refused;
+    }
+  }
+
+  const stages: StageResult[] = [];
+  const oldValue = original[name];
+
+  // Stage 1: generate
+  const { value: newValue } = generateSecret(type, length);
+  stages.push({ stage: 'generate', status: 'done', detail: `Generated a new ${type} value` });
+
+  // Stage 2: store the new value, keeping the old one for graceful rollover
+  const rotated = { ...original, [name]: newValue, [previousKey]: oldValue };
+
+  // The verification command gets derived secrets resolved, like keyway_inject_run
+  let injected: Record<string, string> = rotated;
+  let warnings: string[] = [];
+  if (verify) {
+    try {
+      ({ values: injected, warnings } = resolveSecrets(rotated));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return errorResult(`Error resolving secrets: ${message}. Nothing was changed.`);
+    }
+  }
+
+  try {
+    await pushSecrets(repository, environment, rotated, token);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return errorResult(`Error storing rotated secret: ${message}. Nothing was changed.`);
+  }
+  stages.push({
+    stage: 'store',
+    status: 'done',
+    detail: `Stored the new value; the old value is kept as ${previousKey}`,
+  });
+
+  // Stage 3: verify with the new value injected
+  let verification: { exitCode: number; stdout: string; stderr: string } | undefined;
+  let verified = true;
+  if (verify) {
+    const timeout = Math.min(verify.timeout || DEFAULT_TIMEOUT_MS, DEFAULT_TIMEOUT_MS);
+    try {
+      const result = await runWithSecrets(verify.command, verify.args || [], injected, timeout);
+      verification = { exitCode: result.exitCode, stdout: result.stdout, stderr: result.stderr };
+      verified = result.exitCode === 0;
+      stages.push({
+        stage: 'verify',
+        status: verified ? 'done' : 'failed',
+        detail: `Verification command exited with code ${result.exitCode}`,
+      });
+    } catch (error) {
+      verified = false;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      stages.push({ stage: 'verify', status: 'failed', detail: message });
+    }
+  }
+
+  // Stage 4: restore the old value if verification failed
+  let restored = false;
+  if (!verified) {
+    try {
+      await pushSecrets(repository, environment, original, token);
+      restored = true;
+      stages.push({
+        stage: 'restore',
+        status: 'done',
+        detail: `Restored the old value of ${name}`,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      stages.push({ stage: 'restore', status: 'failed', detail: message });
+    }
+  }
+
+  let message: string;
+  if (verified) {
+    message = `Rotated ${name} in "${environment}". The old value is kept as ${previousKey}; delete it once every consumer uses the new value.`;
+  } else if (restored) {
+    message = `Verification failed, so ${name} in "${environment}" was restored to its old value.`;
+  } else {
+    message = `Verification failed and the old value could not be restored. ${name} in "${environment}" holds the new value; the old value is still available as ${previousKey}.`;
+  }
+
+  return jsonResult(
+    {
+      success: verified,
+      name,
+      previousKey,
+      environment,
+      repository,
+      type,
+      preview: previewValue(newValue),
+      previousPreview: previewValue(oldValue),
+      restored,
+      stages,
+      ...(verification && { verification }),
+      ...(warnings.length > 0 && { warnings }),
+      message,
+    },
+    !verified
+  );
+}
@@ -7,6 +7,8 @@
 import { readdirSync, readFileSync, statSync } from 'fs';
 import { join, extname, relative } from 'path';
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { jsonResult } from '../utils/result.js';
 
 interface SecretPattern {
   name: string;
@@ -14,18 +16,27 @@ interface SecretPattern {
   description: string;
 }
 
-interface Finding {
-  file: string;
-  line: number;
-  type: string;
-  preview: string;
-}
+const findingSchema = z.object({
+  file: z.string(),
+  line: z.number(),
+  type: z.string(),
+  preview: z.string(),
+});
+
+type Finding = z.infer<typeof findingSchema>;
 
 interface ScanResult {
   filesScanned: number;
   findings: Finding[];
 }
 
+export const scanOutputSchema = {
+  path: z.string(),
+  filesScanned: z.number(),
+  findingsCount: z.number(),
+  findings: z.array(findingSchema),
+};
+
 // Secret detection patterns (from gitleaks/trufflehog)
 const SECRET_PATTERNS: SecretPattern[] = [
   // AWS
@@ -160,6 +171,15 @@ const SECRET_PATTERNS: SecretPattern[] = [
   },
 ];
 
+/**
+ * Identify the provider of a secret value from the pattern catalogue
+ * Generic assignment patterns are skipped since they describe code, not values
+ */
+export function identifySecret(value: string): string | null {
+  const pattern = SECRET_PATTERNS.find((p) => !p.name.startsWith('Generic') && p.regex.test(value));
+  return pattern ? pattern.name : null;
+}
+
 // Directories to exclude by default
 const DEFAULT_EXCLUDES = [
   'node_modules',
@@ -445,13 +465,5 @@ export async function scan(args: { path?: string; exclude?: string[] }): Promise
     findings: result.findings,
   };
 
-  return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify(response, null, 2),
-      },
-    ],
-    isError: false,
-  };
+  return jsonResult(response);
 }
@@ -0,0 +1,76 @@
+/**
+ * keyway_secret_history tool
+ * Lists the versions of a secret with masked previews
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { getToken } from '../utils/auth.js';
+import { getRepository } from '../utils/git.js';
+import { getSecretHistory } from '../utils/api.js';
+import { errorResult, jsonResult } from '../utils/result.js';
+import { isSecretName } from '../utils/secret-name.js';
+import { previewValue } from './diff.js';
+
+const DEFAULT_LIMIT = 20;
+
+export const secretHistoryOutputSchema = {
+  name: z.string(),
+  environment: z.string(),
+  repository: z.string(),
+  versions: z.array(
+    z.object({
+      version: z.number(),
+      createdAt: z.string(),
+      author: z.string().nullable(),
+      preview: z.string(),
+      current: z.boolean(),
+    })
+  ),
+  total: z.number(),
+};
+
+export async function secretHistory(args: {
+  name: string;
+  environment: string;
+  limit?: number;
+}): Promise<CallToolResult> {
+  const { name, environment, limit = DEFAULT_LIMIT } = args;
+
+  if (!isSecretName(name)) {
+    return errorResult(
+      `Error: Invalid secret name "${name}". Names must be UPPERCASE_WITH_UNDERSCORES`
+    );
+  }
+
+  if (!environment) {
+    return errorResult('Error: Environment is required');
+  }
+
+  try {
+    const token = await getToken();
+    const repository = getRepository();
+
+    const history = await getSecretHistory(repository, environment, name, token);
+
+    // Security: Only masked previews leave this function, never values
+    const versions = history.slice(0, Math.max(1, limit)).map((entry, index) => ({
+      version: entry.version,
+      createdAt: entry.createdAt,
+      author: entry.author,
+      preview: previewValue(entry.value),
+      current: index === 0,
+    }));
+
+    return jsonResult({
+      name,
+      environment,
+      repository,
+      versions,
+      total: history.length,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return errorResult(`Error fetching secret history: ${message}`);
+  }
+}
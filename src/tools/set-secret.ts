@@ -4,20 +4,31 @@
  */
 
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
 import { getToken } from '../utils/auth.js';
 import { getRepository } from '../utils/git.js';
-import { pushSecrets } from '../utils/api.js';
+import { pullSecretsOrEmpty, pushSecrets } from '../utils/api.js';
+import { jsonResult } from '../utils/result.js';
+import { isSecretName } from '../utils/secret-name.js';
+import type { WriteGuard } from '../utils/protection.js';
 
-// Validate secret name format
-const SECRET_NAME_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+export const setSecretOutputSchema = {
+  success: z.boolean(),
+  name: z.string(),
+  environment: z.string(),
+  action: z.enum(['created', 'updated']),
+};
 
-export async function setSecret(args: {
-  name: string;
-  value: string;
-  environment?: string;
-}): Promise<CallToolResult> {
+export async function setSecret(
+  args: {
+    name: string;
+    value: string;
+    environment?: string;
+  },
+  guard?: WriteGuard
+): Promise<CallToolResult> {
   // Validate name format
-  if (!SECRET_NAME_PATTERN.test(args.name)) {
+  if (!isSecretName(args.name)) {
     return {
       content: [
         {
@@ -33,16 +44,28 @@ export async function setSecret(args: {
   const repository = getRepository();
   const environment = args.environment || 'development';
 
-  const result = await pushSecrets(repository, environment, { [args.name]: args.value }, token);
+  // The other secrets are sent along unchanged
+  const existingSecrets = await pullSecretsOrEmpty(repository, environment, token);
+  const action = args.name in existingSecrets ? 'updated' : 'created';
 
-  const action = result.stats?.created ? 'created' : 'updated';
+  // Protected environments need the user's confirmation first
+  if (guard?.isProtected(environment)) {
+    const refused = await guard.confirmWrite({
+      repository,
+      environment,
+      keys: [{ name: args.name, action: action === 'updated' ? 'overwrite' : 'create' }],
+    });
+    if (refused) {
+      return refused;
+    }
+  }
+
+  await pushSecrets(
+    repository,
+    environment,
+    { ...existingSecrets, [args.name]: args.value },
+    token
+  );
 
-  return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify({ success: true, name: args.name, environment, action }, null, 2),
-      },
-    ],
-  };
+  return jsonResult({ success: true, name: args.name, environment, action });
 }
@@ -5,35 +5,61 @@
  */
 
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
 import { getToken } from '../utils/auth.js';
 import { getRepository } from '../utils/git.js';
 import { pullSecrets } from '../utils/api.js';
 import { parseEnvContent } from '../utils/env-parser.js';
-import { readdirSync, readFileSync, statSync } from 'fs';
-import { join, extname } from 'path';
+import { interpolateSecrets } from '../utils/interpolate.js';
+import { jsonResult } from '../utils/result.js';
+import { ENV_EXAMPLE_FILES, isOptionalEntry, parseEnvExample } from '../utils/env-example.js';
+import {
+  checkSecretValue,
+  isRequiredIn,
+  loadSecretSchema,
+  SCHEMA_FILE_NAME,
+  type SecretSchema,
+} from '../utils/secret-schema.js';
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { join, extname, relative, resolve } from 'path';
 
 interface ValidateArgs {
   environment: string;
   required?: string[];
   autoDetect?: boolean;
   path?: string;
+  schema?: string;
+  examples?: boolean;
 }
 
-interface ValidationResult {
-  valid: boolean;
-  environment: string;
-  repository: string;
-  required: string[];
-  missing: string[];
-  present: string[];
-  extra: string[];
-  stats: {
-    requiredCount: number;
-    presentCount: number;
-    missingCount: number;
-    coverage: string;
-  };
-}
+const validationResultSchema = z.object({
+  valid: z.boolean(),
+  environment: z.string(),
+  repository: z.string(),
+  required: z.array(z.string()),
+  missing: z.array(z.string()),
+  present: z.array(z.string()),
+  extra: z.array(z.string()),
+  invalid: z.array(z.object({ name: z.string(), type: z.string(), reason: z.string() })),
+  schema: z.string().optional(),
+  examples: z.array(z.string()).optional(),
+  descriptions: z.record(z.string()).optional(),
+  warnings: z.array(z.string()).optional(),
+  stats: z.object({
+    requiredCount: z.number(),
+    presentCount: z.number(),
+    missingCount: z.number(),
+    invalidCount: z.number(),
+    coverage: z.string(),
+  }),
+});
+
+type ValidationResult = z.infer<typeof validationResultSchema>;
+
+export const validateOutputSchema = {
+  ...validationResultSchema.shape,
+  message: z.string(),
+};
 
 // Common env var patterns by framework/library
 const FRAMEWORK_PATTERNS: Record<string, RegExp> = {
@@ -129,11 +155,21 @@ function scanFileForEnvVars(filePath: string): Set<string> {
 }
 
 /**
- * Recursively scan directory for environment variable references
+ * Check whether a file name has a source code extension
  */
-function scanDirectoryForEnvVars(dirPath: string, maxDepth: number = 5): Set<string> {
-  const envVars = new Set<string>();
+function isSourceFile(entry: string): boolean {
+  return SCAN_EXTENSIONS.has(extname(entry).toLowerCase());
+}
 
+/**
+ * Recursively visit the files under a directory whose name matches include
+ */
+function walkFiles(
+  dirPath: string,
+  include: (entry: string) => boolean,
+  visit: (filePath: string) => void,
+  maxDepth: number
+) {
   function scan(currentPath: string, depth: number) {
     if (depth > maxDepth) return;
 
@@ -158,20 +194,103 @@ function scanDirectoryForEnvVars(dirPath: string, maxDepth: number = 5): Set<str
         if (!SKIP_DIRS.has(entry) && !entry.startsWith('.')) {
           scan(fullPath, depth + 1);
         }
-      } else if (stats.isFile()) {
-        const ext = extname(entry).toLowerCase();
-        if (SCAN_EXTENSIONS.has(ext)) {
-          const fileVars = scanFileForEnvVars(fullPath);
-          fileVars.forEach((v) => envVars.add(v));
-        }
+      } else if (stats.isFile() && include(entry)) {
+        visit(fullPath);
       }
     }
   }
 
   scan(dirPath, 0);
+}
+
+/**
+ * Recursively scan directory for environment variable references
+ */
+function scanDirectoryForEnvVars(dirPath: string, maxDepth: number = 5): Set<string> {
+  const envVars = new Set<string>();
+
+  walkFiles(
+    dirPath,
+    isSourceFile,
+    (filePath) => {
+      const fileVars = scanFileForEnvVars(filePath);
+      fileVars.forEach((v) => envVars.add(v));
+    },
+    maxDepth
+  );
+
   return envVars;
 }
 
+export interface EnvVarReference {
+  file: string;
+  line: number;
+  text: string;
+}
+
+/**
+ * Find the lines in source files that reference a given environment variable
+ * Uses the same framework patterns as auto-detection; file paths are relative to dirPath
+ */
+export function findEnvVarReferences(
+  name: string,
+  dirPath: string,
+  maxDepth: number = 5
+): EnvVarReference[] {
+  const references: EnvVarReference[] = [];
+
+  walkFiles(
+    dirPath,
+    isSourceFile,
+    (filePath) => {
+      let content: string;
+      try {
+        content = readFileSync(filePath, 'utf-8');
+      } catch {
+        return;
+      }
+      if (!content.includes(name)) return;
+
+      content.split('\n').forEach((line, index) => {
+        const matches = Object.values(FRAMEWORK_PATTERNS).some((pattern) => {
+          pattern.lastIndex = 0;
+          let match;
+          while ((match = pattern.exec(line)) !== null) {
+            if ((match[1] || match[0]) === name) {
+              return true;
+            }
+          }
+          return false;
+        });
+        if (matches) {
+          references.push({
+            file: relative(dirPath, filePath),
+            line: index + 1,
+            text: line.trim().slice(0, 200),
+          });
+        }
+      });
+    },
+    maxDepth
+  );
+
+  return references;
+}
+
+/**
+ * Find .env.example, .env.sample and .env.template files, including in nested packages
+ */
+function findEnvExampleFiles(dirPath: string, maxDepth: number = 5): string[] {
+  const files: string[] = [];
+  walkFiles(
+    dirPath,
+    (entry) => ENV_EXAMPLE_FILES.includes(entry),
+    (f) => files.push(f),
+    maxDepth
+  );
+  return files.sort();
+}
+
 /**
  * Filter out common non-secret env vars
  */
@@ -202,7 +321,13 @@ function filterNonSecrets(envVars: Set<string>): string[] {
 }
 
 export async function validate(args: ValidateArgs): Promise<CallToolResult> {
-  const { environment, required = [], autoDetect = false, path = process.cwd() } = args;
+  const {
+    environment,
+    required = [],
+    autoDetect = false,
+    examples = true,
+    path = process.cwd(),
+  } = args;
 
   if (!environment) {
     return {
@@ -211,12 +336,61 @@ export async function validate(args: ValidateArgs): Promise<CallToolResult> {
     };
   }
 
+  // Load the typed schema: an explicit path, or keyway.schema.json in the project if present
+  const schemaPath = args.schema ? resolve(path, args.schema) : join(path, SCHEMA_FILE_NAME);
+  let schema: SecretSchema | undefined;
+  if (args.schema || existsSync(schemaPath)) {
+    try {
+      schema = loadSecretSchema(schemaPath);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: 'text', text: `Error: ${errorMessage}` }],
+        isError: true,
+      };
+    }
+  }
+
+  // Descriptions of required keys, from schema descriptions and example file comments
+  const descriptions: Record<string, string> = {};
+  for (const [name, spec] of Object.entries(schema?.secrets ?? {})) {
+    if (spec.description) descriptions[name] = spec.description;
+  }
+
+  // Parse example files
+  const exampleFiles = examples ? findEnvExampleFiles(path) : [];
+  const fromExamples = new Set<string>();
+  for (const file of exampleFiles) {
+    let content: string;
+    try {
+      content = readFileSync(file, 'utf-8');
+    } catch {
+      continue;
+    }
+    for (const entry of parseEnvExample(content)) {
+      if (entry.comment && !descriptions[entry.key]) {
+        descriptions[entry.key] = entry.comment;
+      }
+      if (!isOptionalEntry(entry)) {
+        fromExamples.add(entry.key);
+      }
+    }
+  }
+
   try {
     const token = await getToken();
     const repository = getRepository();
 
     // Get required secrets list
-    let requiredSecrets: string[] = [...required];
+    let requiredSecrets: string[] = [...required, ...fromExamples];
+
+    // Add secrets the schema requires in this environment
+    if (schema) {
+      const fromSchema = Object.entries(schema.secrets)
+        .filter(([, spec]) => isRequiredIn(spec, environment))
+        .map(([name]) => name);
+      requiredSecrets = [...new Set([...requiredSecrets, ...fromSchema])];
+    }
 
     // Auto-detect from codebase if requested
     if (autoDetect) {
@@ -230,7 +404,7 @@ export async function validate(args: ValidateArgs): Promise<CallToolResult> {
         content: [
           {
             type: 'text',
-            text: 'Error: No required secrets specified. Provide a "required" array or set "autoDetect: true"',
+            text: `Error: No required secrets specified. Provide a "required" array, set "autoDetect: true" or add a ${SCHEMA_FILE_NAME} or .env.example file`,
           },
         ],
         isError: true,
@@ -260,6 +434,30 @@ export async function validate(args: ValidateArgs): Promise<CallToolResult> {
       }
     }
 
+    // Derived secrets must resolve; their resolved values are what gets type checked
+    const {
+      values: resolvedSecrets,
+      errors: interpolationErrors,
+      warnings: interpolationWarnings,
+    } = interpolateSecrets(existingSecrets);
+    const invalid: ValidationResult['invalid'] = interpolationErrors.map((error) => ({
+      name: error.key,
+      type: 'derived',
+      reason: error.message,
+    }));
+
+    // Check present values against their declared types, without exposing them
+    if (schema) {
+      for (const [name, spec] of Object.entries(schema.secrets)) {
+        if (!(name in resolvedSecrets)) continue;
+        const reason = checkSecretValue(spec, resolvedSecrets[name]);
+        if (reason) {
+          invalid.push({ name, type: spec.type, reason });
+        }
+      }
+    }
+    invalid.sort((a, b) => a.name.localeCompare(b.name));
+
     // Find extra secrets (in vault but not required)
     const requiredSet = new Set(requiredSecrets);
     const extra = Array.from(existingKeys)
@@ -272,17 +470,29 @@ export async function validate(args: ValidateArgs): Promise<CallToolResult> {
         : '100.0';
 
     const result: ValidationResult = {
-      valid: missing.length === 0,
+      valid: missing.length === 0 && invalid.length === 0,
       environment,
       repository,
       required: requiredSecrets.sort(),
       missing: missing.sort(),
       present: present.sort(),
       extra,
+      invalid,
+      ...(schema && { schema: schemaPath }),
+      ...(exampleFiles.length > 0 && { examples: exampleFiles.map((f) => relative(path, f)) }),
+      ...(missing.some((name) => descriptions[name]) && {
+        descriptions: Object.fromEntries(
+          missing.filter((name) => descriptions[name]).map((name) => [name, descriptions[name]])
+        ),
+      }),
+      ...(interpolationWarnings.length > 0 && {
+        warnings: interpolationWarnings.map((warning) => warning.message),
+      }),
       stats: {
         requiredCount: requiredSecrets.length,
         presentCount: present.length,
         missingCount: missing.length,
+        invalidCount: invalid.length,
         coverage: `${coverage}%`,
       },
     };
@@ -291,8 +501,13 @@ export async function validate(args: ValidateArgs): Promise<CallToolResult> {
     let message: string;
     if (result.valid) {
       message = `✓ All ${requiredSecrets.length} required secrets are present in "${environment}"`;
-    } else {
+    } else if (missing.length > 0) {
       message = `✗ Missing ${missing.length} required secret${missing.length > 1 ? 's' : ''} in "${environment}": ${missing.join(', ')}`;
+    } else {
+      message = `✗ All required secrets are present in "${environment}", but some cannot be resolved or fail their type check`;
+    }
+    if (invalid.length > 0) {
+      message += `. Invalid: ${invalid.map((entry) => `${entry.name} (${entry.reason})`).join(', ')}`;
     }
 
     const response = {
@@ -300,10 +515,7 @@ export async function validate(args: ValidateArgs): Promise<CallToolResult> {
       message,
     };
 
-    return {
-      content: [{ type: 'text', text: JSON.stringify(response, null, 2) }],
-      isError: false,
-    };
+    return jsonResult(response);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     return {
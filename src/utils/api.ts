@@ -3,6 +3,8 @@
  * Simplified version of cli/src/utils/api.ts
  */
 
+import { parseEnvContent } from './env-parser.js';
+
 const API_BASE_URL = process.env.KEYWAY_API_URL || 'https://api.keyway.sh';
 const USER_AGENT = 'keyway-mcp/1.0.0';
 const DEFAULT_TIMEOUT_MS = 30000;
@@ -83,6 +85,13 @@ export class APIError extends Error {
   }
 }
 
+/**
+ * Check whether an error means the requested environment does not exist
+ */
+export function isNotFoundError(error: unknown): boolean {
+  return error instanceof APIError && error.statusCode === 404;
+}
+
 /**
  * Check if error is retryable (5xx or network error)
  */
@@ -233,8 +242,27 @@ export async function pullSecrets(
   return result.data.content;
 }
 
+/**
+ * Pull an environment's secrets before writing to it, reading a missing environment as empty
+ * Any other failure is thrown: push replaces an environment's contents, so writing after a
+ * failed read would delete every key that could not be read
+ */
+export async function pullSecretsOrEmpty(
+  repository: string,
+  environment: string,
+  token: string
+): Promise<Record<string, string>> {
+  try {
+    return parseEnvContent(await pullSecrets(repository, environment, token));
+  } catch (error) {
+    if (!isNotFoundError(error)) throw error;
+    return {};
+  }
+}
+
 /**
  * Push secrets to vault
+ * Replaces the environment's contents: keys that are not sent are deleted
  */
 export async function pushSecrets(
   repository: string,
@@ -269,9 +297,29 @@ export async function pushSecrets(
 }
 
 /**
- * Get vault environments
+ * Delete secrets from vault
+ * The push endpoint replaces an environment's contents, so this pushes every other key
  */
-export async function getVaultEnvironments(repository: string, token: string): Promise<string[]> {
+export async function deleteSecrets(
+  repository: string,
+  environment: string,
+  keys: string[],
+  token: string
+): Promise<PushResult> {
+  const content = await pullSecrets(repository, environment, token);
+  const secrets = parseEnvContent(content);
+
+  for (const key of keys) {
+    delete secrets[key];
+  }
+
+  return pushSecrets(repository, environment, secrets, token);
+}
+
+/**
+ * Build the API path of a repository's vault
+ */
+function vaultPath(repository: string): string {
   const [owner, repo] = repository.split('/');
 
   if (!owner || !repo) {
@@ -282,10 +330,68 @@ export async function getVaultEnvironments(repository: string, token: string): P
     );
   }
 
+  return `${API_BASE_URL}/v1/vaults/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+}
+
+/**
+ * Get vault environments
+ * Only environments that exist in the vault are returned
+ */
+export async function getVaultEnvironments(repository: string, token: string): Promise<string[]> {
+  const response = await fetchWithRetry(vaultPath(repository), {
+    method: 'GET',
+    headers: {
+      'User-Agent': USER_AGENT,
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  const result = await handleResponse<{ data?: { environments?: string[] } }>(response);
+
+  if (!result.data || !Array.isArray(result.data.environments)) {
+    throw new APIError(500, 'INVALID_RESPONSE', 'Invalid response format from API');
+  }
+
+  return result.data.environments;
+}
+
+/**
+ * Create an empty environment in a vault
+ */
+export async function createEnvironment(
+  repository: string,
+  environment: string,
+  token: string
+): Promise<void> {
+  validateEnvironment(environment);
+
+  const response = await fetchWithRetry(`${vaultPath(repository)}/environments`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'User-Agent': USER_AGENT,
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ name: environment }),
+  });
+
+  await handleResponse(response);
+}
+
+/**
+ * Delete an environment and all of its secrets from a vault
+ */
+export async function deleteEnvironment(
+  repository: string,
+  environment: string,
+  token: string
+): Promise<void> {
+  validateEnvironment(environment);
+
   const response = await fetchWithRetry(
-    `${API_BASE_URL}/v1/vaults/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`,
+    `${vaultPath(repository)}/environments/${encodeURIComponent(environment)}`,
     {
-      method: 'GET',
+      method: 'DELETE',
       headers: {
         'User-Agent': USER_AGENT,
         Authorization: `Bearer ${token}`,
@@ -293,10 +399,7 @@ export async function getVaultEnvironments(repository: string, token: string): P
     }
   );
 
-  const result = await handleResponse<{ data?: { environments?: string[] } }>(response);
-
-  // Return environments from response, or default list if not available
-  return result.data?.environments || DEFAULT_ENVIRONMENTS;
+  await handleResponse(response);
 }
 
 /**
@@ -335,16 +438,93 @@ export async function getSecretValue(
   return result.data;
 }
 
+export interface SecretVersion {
+  version: number;
+  value: string;
+  createdAt: string;
+  author: string | null;
+}
+
+/**
+ * Get the version history of a secret (newest first)
+ */
+export async function getSecretHistory(
+  repository: string,
+  environment: string,
+  key: string,
+  token: string
+): Promise<SecretVersion[]> {
+  validateEnvironment(environment);
+
+  const params = new URLSearchParams({
+    repo: repository,
+    environment,
+    key,
+  });
+
+  const response = await fetchWithRetry(`${API_BASE_URL}/v1/secrets/history?${params}`, {
+    method: 'GET',
+    headers: {
+      'User-Agent': USER_AGENT,
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  const result = await handleResponse<{ data?: { versions?: SecretVersion[] } }>(response);
+
+  if (!result.data || !Array.isArray(result.data.versions)) {
+    throw new APIError(500, 'INVALID_RESPONSE', 'Invalid response format from API');
+  }
+
+  return [...result.data.versions].sort((a, b) => b.version - a.version);
+}
+
+/**
+ * Restore a previous version of a secret
+ * The restored value becomes a new version; returns its number
+ */
+export async function rollbackSecret(
+  repository: string,
+  environment: string,
+  key: string,
+  version: number,
+  token: string
+): Promise<{ key: string; version: number }> {
+  validateEnvironment(environment);
+
+  const response = await fetchWithRetry(`${API_BASE_URL}/v1/secrets/rollback`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'User-Agent': USER_AGENT,
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({
+      repoFullName: repository,
+      environment,
+      key,
+      version,
+    }),
+  });
+
+  const result = await handleResponse<{ data?: { key: string; version: number } }>(response);
+
+  if (!result.data || typeof result.data.version !== 'number') {
+    throw new APIError(500, 'INVALID_RESPONSE', 'Invalid response format from API');
+  }
+
+  return result.data;
+}
+
 /**
  * Valid environment name pattern
  */
 const ENVIRONMENT_PATTERN = /^[a-zA-Z][a-zA-Z0-9_-]*$/;
-const DEFAULT_ENVIRONMENTS = ['development', 'staging', 'production'];
 
 /**
  * Validate environment name
  */
-function validateEnvironment(environment: string): void {
+export function validateEnvironment(environment: string): void {
   if (!environment || !ENVIRONMENT_PATTERN.test(environment)) {
     throw new APIError(
       400,
@@ -0,0 +1,100 @@
+/**
+ * Server startup options
+ * Parsed from CLI flags, with environment variable fallbacks
+ */
+
+import { parseArgs } from 'util';
+import { DEFAULT_PROTECTED_ENVIRONMENTS } from './protection.js';
+
+export type TransportMode = 'stdio' | 'http';
+
+export interface ToolPolicy {
+  readOnly: boolean;
+  allow?: string[];
+  deny: string[];
+}
+
+export interface ServerOptions {
+  transport: TransportMode;
+  host: string;
+  port: number;
+  token?: string;
+  toolPolicy: ToolPolicy;
+  protectedEnvironments: string[];
+}
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_PORT = 3333;
+
+/**
+ * Parse a TCP port number, throwing on anything outside 0-65535
+ */
+function parsePort(value: string): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port "${value}". Must be an integer between 0 and 65535.`);
+  }
+  return port;
+}
+
+/**
+ * Parse a comma-separated list (tool or environment names)
+ */
+function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse a boolean environment variable ("1" or "true")
+ */
+function isEnabled(value: string | undefined): boolean {
+  return value === '1' || value?.toLowerCase() === 'true';
+}
+
+/**
+ * Parse server options from CLI arguments and environment variables
+ * CLI flags take precedence over KEYWAY_MCP_* environment variables
+ */
+export function parseServerOptions(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): ServerOptions {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      http: { type: 'boolean' },
+      host: { type: 'string' },
+      port: { type: 'string' },
+      'read-only': { type: 'boolean' },
+      tools: { type: 'string' },
+      'exclude-tools': { type: 'string' },
+      'protected-envs': { type: 'string' },
+    },
+    strict: true,
+  });
+
+  const transport: TransportMode =
+    values.http || env.KEYWAY_MCP_TRANSPORT === 'http' ? 'http' : 'stdio';
+
+  const portValue = values.port ?? env.KEYWAY_MCP_PORT;
+  const allowValue = values.tools ?? env.KEYWAY_MCP_TOOLS;
+  const denyValue = values['exclude-tools'] ?? env.KEYWAY_MCP_EXCLUDE_TOOLS;
+  const protectedValue = values['protected-envs'] ?? env.KEYWAY_MCP_PROTECTED_ENVS;
+
+  return {
+    transport,
+    host: values.host ?? env.KEYWAY_MCP_HOST ?? DEFAULT_HOST,
+    port: portValue !== undefined ? parsePort(portValue) : DEFAULT_PORT,
+    token: env.KEYWAY_MCP_TOKEN || undefined,
+    toolPolicy: {
+      readOnly: values['read-only'] ?? isEnabled(env.KEYWAY_MCP_READ_ONLY),
+      allow: allowValue !== undefined ? parseList(allowValue) : undefined,
+      deny: denyValue !== undefined ? parseList(denyValue) : [],
+    },
+    protectedEnvironments:
+      protectedValue !== undefined ? parseList(protectedValue) : DEFAULT_PROTECTED_ENVIRONMENTS,
+  };
+}
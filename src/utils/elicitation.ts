@@ -0,0 +1,12 @@
+/**
+ * MCP elicitation helpers
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+
+/**
+ * Check whether the connected client can show form elicitation requests
+ */
+export function supportsElicitation(server: Server): boolean {
+  return Boolean(server.getClientCapabilities()?.elicitation);
+}
@@ -0,0 +1,30 @@
+/**
+ * Entropy estimation for secret values
+ */
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  if (!value) return 0;
+
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  const total = [...value].length;
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / total;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Total Shannon entropy of a string in bits
+ */
+export function totalEntropyBits(value: string): number {
+  return Math.round(shannonEntropy(value) * [...value].length);
+}
@@ -0,0 +1,117 @@
+/**
+ * .env.example utilities
+ * Example files list the keys a project needs, with comments describing them
+ */
+
+import { parseEnvContent } from './env-parser.js';
+
+export const ENV_EXAMPLE_FILES = ['.env.example', '.env.sample', '.env.template'];
+
+export interface EnvExampleEntry {
+  key: string;
+  comment?: string;
+}
+
+/**
+ * Match the key of an assignment line (with optional "export" prefix)
+ */
+function assignmentKey(line: string): string | null {
+  const match = line.trim().match(/^(?:export\s+)?([A-Za-z_][A-Za-z0-9_.]*)\s*=/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Parse an example file into its keys, in file order, with the comment block above each key
+ */
+export function parseEnvExample(content: string): EnvExampleEntry[] {
+  const keys = new Set(Object.keys(parseEnvContent(content)));
+  const entries: EnvExampleEntry[] = [];
+  let comments: string[] = [];
+
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith('#')) {
+      const text = trimmed.replace(/^#+\s*/, '');
+      if (text) comments.push(text);
+      continue;
+    }
+
+    const key = assignmentKey(trimmed);
+    if (key && keys.has(key)) {
+      entries.push(comments.length > 0 ? { key, comment: comments.join(' ') } : { key });
+      keys.delete(key);
+    }
+    comments = [];
+  }
+
+  return entries;
+}
+
+/**
+ * Keys whose comment marks them as optional are not required
+ */
+export function isOptionalEntry(entry: EnvExampleEntry): boolean {
+  return entry.comment !== undefined && /\boptional\b/i.test(entry.comment);
+}
+
+export interface EnvExampleUpdate {
+  content: string;
+  added: string[];
+  removed: string[];
+  stale: string[];
+}
+
+/**
+ * Update example file content from a key list
+ * Existing lines, comments and order are kept; new keys are appended with empty values.
+ * Keys that are not in the list are reported as stale, or removed with their comments when prune is set.
+ */
+export function updateEnvExample(content: string, keys: string[], prune = false): EnvExampleUpdate {
+  const wanted = new Set(keys);
+  const lines = content ? content.replace(/\n$/, '').split('\n') : [];
+  const output: string[] = [];
+  const present = new Set<string>();
+  const removed: string[] = [];
+  const stale: string[] = [];
+
+  let pendingComments: string[] = [];
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('#')) {
+      pendingComments.push(line);
+      continue;
+    }
+
+    const key = assignmentKey(trimmed);
+    if (key && !wanted.has(key)) {
+      if (prune) {
+        // Drop the key together with the comment block that describes it
+        removed.push(key);
+        pendingComments = [];
+        continue;
+      }
+      stale.push(key);
+    }
+    if (key) {
+      present.add(key);
+    }
+
+    output.push(...pendingComments, line);
+    pendingComments = [];
+  }
+  output.push(...pendingComments);
+
+  const added = keys.filter((key) => !present.has(key)).sort();
+  if (added.length > 0 && output.length > 0 && output[output.length - 1].trim() !== '') {
+    output.push('');
+  }
+  output.push(...added.map((key) => `${key}=`));
+
+  return {
+    content: output.length > 0 ? output.join('\n') + '\n' : '',
+    added,
+    removed,
+    stale,
+  };
+}
@@ -1,51 +1,119 @@
 /**
  * .env file parsing utilities
- * Adapted from cli/src/utils/api.ts parseEnvContent
+ * Follows the conventions shared by the dotenv libraries for Node, Python and Ruby:
+ * - Optional "export " prefix
+ * - Single-quoted values are literal; double-quoted values support \n, \r, \t, \" and \\ escapes
+ * - Quoted values may span several lines (e.g. PEM keys)
+ * - "#" starts a comment at the beginning of a line, or after whitespace in an unquoted value
  */
 
+// Key and "=" at the start of a line; the value starts right after the match
+const ASSIGNMENT_PATTERN = /^[ \t]*(?:export[ \t]+)?([\w.-]+)[ \t]*=/;
+
+// Escapes recognized in double-quoted values
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  '"': '"',
+  '\\': '\\',
+};
+
+/**
+ * Read a quoted value starting at the opening quote
+ * Returns the value and the index after the closing quote, or null if the quote is never closed
+ */
+function readQuoted(
+  text: string,
+  start: number,
+  quote: string
+): { value: string; end: number } | null {
+  let value = '';
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text[i];
+    if (char === quote) {
+      return { value, end: i + 1 };
+    }
+    if (char === '\\' && quote === '"' && i + 1 < text.length) {
+      const next = text[i + 1];
+      // Unknown escapes are kept as written
+      value += ESCAPES[next] ?? char + next;
+      i++;
+      continue;
+    }
+    value += char;
+  }
+  return null;
+}
+
 /**
  * Parse .env content into key-value pairs
+ * Later assignments of the same key win
  */
 export function parseEnvContent(content: string): Record<string, string> {
   const result: Record<string, string> = {};
-  const lines = content.split('\n');
+  const text = content.replace(/\r\n/g, '\n');
 
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (!trimmed || trimmed.startsWith('#')) continue;
+  let pos = 0;
+  while (pos < text.length) {
+    let lineEnd = text.indexOf('\n', pos);
+    if (lineEnd === -1) lineEnd = text.length;
 
-    const eqIndex = trimmed.indexOf('=');
-    if (eqIndex === -1) continue;
+    // Blank lines, comments and lines without an assignment are skipped
+    const match = text.slice(pos, lineEnd).match(ASSIGNMENT_PATTERN);
+    if (!match) {
+      pos = lineEnd + 1;
+      continue;
+    }
 
-    const key = trimmed.substring(0, eqIndex).trim();
-    let value = trimmed.substring(eqIndex + 1);
+    const key = match[1];
+    const raw = text.slice(pos + match[0].length, lineEnd);
+    const valueStart = pos + match[0].length + (raw.length - raw.trimStart().length);
+    const quote = text[valueStart];
 
-    // Remove surrounding quotes
-    if (
-      (value.startsWith('"') && value.endsWith('"')) ||
-      (value.startsWith("'") && value.endsWith("'"))
-    ) {
-      value = value.slice(1, -1);
+    if (quote === '"' || quote === "'" || quote === '`') {
+      const quoted = readQuoted(text, valueStart, quote);
+      if (quoted) {
+        result[key] = quoted.value;
+        // Anything after the closing quote on its line is a comment
+        const next = text.indexOf('\n', quoted.end);
+        pos = next === -1 ? text.length : next + 1;
+        continue;
+      }
+      // An unclosed quote is read as part of an unquoted value
     }
 
-    if (key) result[key] = value;
+    result[key] = raw.replace(/\s#.*$/, '').trim();
+    pos = lineEnd + 1;
   }
 
   return result;
 }
 
+/**
+ * Check whether a value must be quoted to survive a round trip
+ */
+function needsQuotes(value: string): boolean {
+  // Whitespace, quotes, "#", backslashes and control characters (anything below space, or DEL)
+  return value === '' || /[\s"'`#\\\x7f]|[^\x20-\uffff]/.test(value);
+}
+
 /**
  * Format secrets as .env content
+ * parseEnvContent(formatEnvContent(secrets)) returns the same secrets for any values
  */
 export function formatEnvContent(secrets: Record<string, string>): string {
   return Object.entries(secrets)
     .map(([key, value]) => {
-      // Quote values that contain spaces, newlines, or special chars
-      if (/[\s"'#]/.test(value) || value === '') {
-        const escaped = value.replace(/"/g, '\\"');
-        return `${key}="${escaped}"`;
+      if (!needsQuotes(value)) {
+        return `${key}=${value}`;
       }
-      return `${key}=${value}`;
+      const escaped = value
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, '\\n')
+        .replace(/\r/g, '\\r');
+      return `${key}="${escaped}"`;
     })
     .join('\n');
 }
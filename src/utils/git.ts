@@ -3,7 +3,8 @@
  * Adapted from cli/src/utils/git.ts
  */
 
-import { execSync } from 'child_process';
+import { execFileSync, execSync } from 'child_process';
+import { basename, dirname } from 'path';
 
 /**
  * Parse GitHub URL to owner/repo format
@@ -60,3 +61,38 @@ export function getRepository(): string {
   }
   return repo;
 }
+
+/**
+ * Check whether a path is inside a git working tree
+ */
+export function isInsideGitWorkTree(path: string): boolean {
+  try {
+    const output = execFileSync(
+      'git',
+      ['-C', dirname(path), 'rev-parse', '--is-inside-work-tree'],
+      {
+        encoding: 'utf-8',
+        stdio: 'pipe',
+      }
+    );
+    return output.trim() === 'true';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether a path is ignored by git (.gitignore, .git/info/exclude, global excludes)
+ * The path does not need to exist, but its parent directory does
+ */
+export function isGitIgnored(path: string): boolean {
+  try {
+    // Exit code 0 = ignored, 1 = not ignored
+    execFileSync('git', ['-C', dirname(path), 'check-ignore', '-q', '--', basename(path)], {
+      stdio: 'pipe',
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
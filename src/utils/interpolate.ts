@@ -0,0 +1,194 @@
+/**
+ * Secret interpolation
+ * A derived secret references other keys of the same environment, e.g.
+ * postgres://${DB_USER}:${DB_PASSWORD}@${DB_HOST}:5432/${DB_NAME}, and is resolved when it is used
+ * Values without references are used exactly as stored: "\${" is only unescaped in templates
+ */
+
+// ${NAME} or ${NAME:raw}; a backslash before the "$" keeps it literal
+const REFERENCE_PATTERN = /(\\)?\$\{([A-Z][A-Z0-9_]*)(:raw)?\}/g;
+
+// Values that start with a scheme are URLs: pieces in the userinfo, path, query or fragment are
+// percent-encoded, pieces in the host and port are inserted as-is
+const URL_PATTERN = /^[a-z][a-z0-9+.-]*:\/\//i;
+
+export class InterpolationError extends Error {
+  constructor(
+    public key: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'InterpolationError';
+  }
+}
+
+/**
+ * Find the host and port of a URL template, as [start, end) offsets
+ * The authority ends at the first "/", "?" or "#" after the scheme; the host follows the last "@"
+ */
+function hostRange(template: string): [number, number] {
+  const authorityStart = template.indexOf('://') + 3;
+  const authorityLength = template.slice(authorityStart).search(/[/?#]/);
+  const end = authorityLength === -1 ? template.length : authorityStart + authorityLength;
+  const at = template.lastIndexOf('@', end - 1);
+  return [at >= authorityStart ? at + 1 : authorityStart, end];
+}
+
+export interface InterpolationWarning {
+  key: string;
+  message: string;
+}
+
+export interface InterpolationResult {
+  values: Record<string, string>;
+  errors: InterpolationError[];
+  // References to keys that are not in the environment, kept as literal text
+  warnings: InterpolationWarning[];
+}
+
+export interface ResolvedSecrets {
+  values: Record<string, string>;
+  warnings: string[];
+}
+
+/**
+ * List the keys a value references, in order of first use
+ */
+export function getReferences(value: string): string[] {
+  const references = new Set<string>();
+  for (const [, escaped, name] of value.matchAll(REFERENCE_PATTERN)) {
+    if (!escaped) references.add(name);
+  }
+  return [...references];
+}
+
+/**
+ * Check whether a value is built from other secrets
+ */
+export function isDerived(value: string): boolean {
+  return getReferences(value).length > 0;
+}
+
+/**
+ * List the keys whose value references any of the given keys, sorted
+ */
+export function findDependentKeys(secrets: Record<string, string>, names: string[]): string[] {
+  return Object.keys(secrets)
+    .filter((key) => getReferences(secrets[key]).some((name) => names.includes(name)))
+    .sort();
+}
+
+/**
+ * Point a value's references to one key at another, keeping :raw and escaped references
+ */
+export function renameReferences(value: string, from: string, to: string): string {
+  return value.replace(
+    REFERENCE_PATTERN,
+    (match, escaped: string | undefined, name: string, raw: string | undefined) =>
+      escaped || name !== from ? match : `\${${to}${raw ?? ''}}`
+  );
+}
+
+/**
+ * List the derived keys of an environment, sorted
+ */
+export function findDerivedKeys(secrets: Record<string, string>): string[] {
+  return Object.keys(secrets)
+    .filter((key) => isDerived(secrets[key]))
+    .sort();
+}
+
+/**
+ * Resolve every derived secret, collecting errors instead of throwing
+ * A reference to a key that is not in the environment (e.g. ${HOME} in a value copied from a
+ * .env file) is kept as literal text with a warning; keys in a cycle are left out of values
+ * Security: Error and warning messages only name keys, never values
+ */
+export function interpolateSecrets(secrets: Record<string, string>): InterpolationResult {
+  const resolved = new Map<string, string>();
+  const failed = new Map<string, InterpolationError>();
+  const warnings: InterpolationWarning[] = [];
+
+  const resolve = (key: string, stack: string[]): string => {
+    const cached = resolved.get(key);
+    if (cached !== undefined) return cached;
+    const failure = failed.get(key);
+    if (failure) throw failure;
+
+    if (stack.includes(key)) {
+      const cycle = [...stack.slice(stack.indexOf(key)), key].join(' -> ');
+      throw new InterpolationError(key, `Circular reference: ${cycle}`);
+    }
+
+    // Only templates are rewritten, so a value without references keeps any "\${" as stored
+    const template = secrets[key];
+    if (!isDerived(template)) {
+      resolved.set(key, template);
+      return template;
+    }
+
+    const undefinedNames = new Set<string>();
+    const isUrl = URL_PATTERN.test(template);
+    const [hostStart, hostEnd] = isUrl ? hostRange(template) : [0, 0];
+    const value = template.replace(
+      REFERENCE_PATTERN,
+      (
+        match,
+        escaped: string | undefined,
+        name: string,
+        raw: string | undefined,
+        offset: number
+      ) => {
+        if (escaped) return match.slice(1);
+        if (!(name in secrets)) {
+          undefinedNames.add(name);
+          return match;
+        }
+        const piece = resolve(name, [...stack, key]);
+        const inHost = offset >= hostStart && offset < hostEnd;
+        return isUrl && !inHost && !raw ? encodeURIComponent(piece) : piece;
+      }
+    );
+    for (const name of undefinedNames) {
+      warnings.push({
+        key,
+        message: `${key} references undefined secret ${name}, kept as literal text (write \\\${${name}} to mark it literal)`,
+      });
+    }
+    resolved.set(key, value);
+    return value;
+  };
+
+  for (const key of Object.keys(secrets)) {
+    try {
+      resolve(key, []);
+    } catch (error) {
+      if (!(error instanceof InterpolationError)) throw error;
+      // Report dependents of a broken key under their own name
+      failed.set(key, error.key === key ? error : new InterpolationError(key, error.message));
+    }
+  }
+
+  return {
+    values: Object.fromEntries(
+      Object.keys(secrets)
+        .filter((key) => resolved.has(key))
+        .map((key) => [key, resolved.get(key)!])
+    ),
+    errors: [...failed.values()],
+    warnings,
+  };
+}
+
+/**
+ * Resolve every derived secret
+ * Throws an InterpolationError for the first key that cannot be resolved at all (a cycle);
+ * undefined references only produce warnings, so they never make an environment unusable
+ */
+export function resolveSecrets(secrets: Record<string, string>): ResolvedSecrets {
+  const { values, errors, warnings } = interpolateSecrets(secrets);
+  if (errors.length > 0) {
+    throw errors[0];
+  }
+  return { values, warnings: warnings.map((warning) => warning.message) };
+}
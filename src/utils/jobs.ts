@@ -0,0 +1,375 @@
+/**
+ * Background jobs
+ * Long-running commands (dev servers, watchers, migrations) run with injected secrets are kept
+ * in a registry that outlives a single tool call, and are stopped when the server shuts down
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+
+const MAX_RUNNING_JOBS = 10;
+const MAX_FINISHED_JOBS = 20;
+const MAX_LOG_LINES = 10000; // Older lines are dropped
+const MAX_LINE_LENGTH = 10000;
+const DEFAULT_LOG_LIMIT = 200;
+export const DEFAULT_STOP_TIMEOUT_MS = 5000;
+
+export const jobInfoSchema = z.object({
+  id: z.string(),
+  command: z.string(),
+  args: z.array(z.string()),
+  environment: z.string(),
+  pid: z.number().nullable(),
+  status: z.enum(['running', 'exited', 'stopped']),
+  exitCode: z.number().nullable(),
+  signal: z.string().nullable(),
+  startedAt: z.string(),
+  endedAt: z.string().nullable(),
+  lineCount: z.number(),
+});
+
+export type JobInfo = z.infer<typeof jobInfoSchema>;
+
+export interface JobStartOptions {
+  command: string;
+  args: string[];
+  environment: string;
+  secrets: Record<string, string>;
+  // Applied to each stream's raw output before it is stored
+  mask: (text: string) => string;
+  // Length of the end of the text that could be the start of a masked value
+  partialSecretLength: (text: string) => number;
+}
+
+export interface JobLogs {
+  output: string;
+  offset: number;
+  nextOffset: number;
+  total: number;
+  dropped: number;
+}
+
+export interface JobRegistry {
+  /**
+   * Start a command in the background
+   * Resolves once the process is running, rejects if it cannot be started
+   */
+  start(options: JobStartOptions): Promise<JobInfo>;
+  get(id: string): JobInfo | undefined;
+  list(): JobInfo[];
+  /**
+   * Read log lines from an absolute line offset, or the last "tail" lines
+   * Lines are stored masked, so no page can show part of a secret
+   */
+  logs(id: string, range: { offset?: number; tail?: number; limit?: number }): JobLogs | undefined;
+  /**
+   * Stop a job with SIGTERM, then SIGKILL if it is still running after the timeout
+   */
+  stop(id: string, timeoutMs?: number): Promise<JobInfo | undefined>;
+  stopAll(timeoutMs?: number): Promise<void>;
+  // Synchronous last resort used when the process exits
+  killAll(): void;
+  // Stop every job and forget the registry
+  close(): Promise<void>;
+}
+
+type OutputStream = 'stdout' | 'stderr';
+
+interface StreamBuffer {
+  // Raw output held back because it may be the start of a secret split across chunks
+  raw: string;
+  // Masked text of the current, unterminated line
+  line: string;
+  // The current line was already logged cut at MAX_LINE_LENGTH; the rest is dropped
+  cut: boolean;
+}
+
+interface Job {
+  info: JobInfo;
+  child: ChildProcess;
+  mask: (text: string) => string;
+  partialSecretLength: (text: string) => number;
+  // Masked lines
+  lines: string[];
+  dropped: number;
+  streams: Record<OutputStream, StreamBuffer>;
+  stopRequested: boolean;
+  exited: Promise<void>;
+}
+
+const registries = new Set<JobRegistry>();
+let exitHookInstalled = false;
+
+/**
+ * Kill every job when the process exits, whatever the reason
+ */
+function installExitHook() {
+  if (exitHookInstalled) return;
+  exitHookInstalled = true;
+  process.once('exit', () => {
+    for (const registry of registries) {
+      registry.killAll();
+    }
+  });
+}
+
+/**
+ * Stop the jobs of every registry (used on server shutdown)
+ */
+export async function stopAllJobs(timeoutMs?: number): Promise<void> {
+  await Promise.all(Array.from(registries).map((registry) => registry.stopAll(timeoutMs)));
+}
+
+/**
+ * Send a signal to a job and the processes it started
+ * On POSIX jobs run in their own process group, so dev servers' child processes are included
+ */
+function signalJob(child: ChildProcess, signal: NodeJS.Signals) {
+  if (process.platform !== 'win32' && child.pid) {
+    try {
+      process.kill(-child.pid, signal);
+      return;
+    } catch {
+      // The group is gone; fall back to the process itself
+    }
+  }
+  child.kill(signal);
+}
+
+/**
+ * Mask a stream's raw output as it arrives
+ * An end that could be the start of a secret is held back until the next chunk shows whether
+ * the secret continues there
+ */
+function maskChunk(job: Job, buffer: StreamBuffer, text: string, flush: boolean): string {
+  const pending = buffer.raw + text;
+  const masked = job.mask(pending);
+  let held = flush ? 0 : job.partialSecretLength(pending);
+  // Less is held back when a secret that was already masked covers part of the end
+  while (held > 0 && !masked.endsWith(pending.slice(pending.length - held))) held--;
+  buffer.raw = pending.slice(pending.length - held);
+  return masked.slice(0, masked.length - held);
+}
+
+/**
+ * Append output to a job's log, one entry per complete line
+ * Lines are masked before they are split and prefixed, so multiline secrets are caught
+ * A carriage return also ends a line, so progress bars that redraw with "\r" are logged
+ */
+function appendOutput(job: Job, stream: OutputStream, text: string, flush = false) {
+  const buffer = job.streams[stream];
+  let pending = buffer.line + maskChunk(job, buffer, text, flush);
+  // A trailing "\r" waits for the next chunk, which may start with the "\n" of a "\r\n"
+  const carriageReturn = !flush && pending.endsWith('\r');
+  if (carriageReturn) pending = pending.slice(0, -1);
+
+  const parts = pending.split(/\r\n|\r|\n/);
+  let rest = parts.pop()!;
+  // An unterminated last line is kept until more output arrives, or the job ends
+  if (flush && rest) parts.push(rest);
+  if (flush) rest = '';
+
+  // The start of a cut line was logged already; what follows up to the line break is dropped
+  if (buffer.cut && parts.length > 0) {
+    parts.shift();
+    buffer.cut = false;
+  }
+  // An unterminated line that outgrows the limit is logged cut now instead of growing unbounded
+  if (!buffer.cut && rest.length > MAX_LINE_LENGTH) {
+    parts.push(rest);
+    buffer.cut = true;
+  }
+  buffer.line = (buffer.cut ? '' : rest) + (carriageReturn ? '\r' : '');
+
+  for (const part of parts) {
+    const line = part.length > MAX_LINE_LENGTH ? part.slice(0, MAX_LINE_LENGTH) + '…' : part;
+    job.lines.push(stream === 'stderr' ? `[stderr] ${line}` : line);
+  }
+
+  if (job.lines.length > MAX_LOG_LINES) {
+    const excess = job.lines.length - MAX_LOG_LINES;
+    job.lines.splice(0, excess);
+    job.dropped += excess;
+  }
+  job.info.lineCount = job.dropped + job.lines.length;
+}
+
+/**
+ * Create a job registry
+ * The HTTP transport creates one per session, so clients never see each other's jobs
+ */
+export function createJobRegistry(): JobRegistry {
+  const jobs = new Map<string, Job>();
+
+  // Forget the oldest finished jobs beyond the retention limit
+  const pruneFinished = () => {
+    const finished = Array.from(jobs.values()).filter((job) => job.info.status !== 'running');
+    for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+      jobs.delete(job.info.id);
+    }
+  };
+
+  const stopJob = async (job: Job, timeoutMs: number) => {
+    if (job.info.status !== 'running') return;
+    job.stopRequested = true;
+    signalJob(job.child, 'SIGTERM');
+
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = await Promise.race([
+      job.exited.then(() => false),
+      new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => resolve(true), timeoutMs);
+      }),
+    ]);
+    clearTimeout(timer);
+
+    if (timedOut) {
+      signalJob(job.child, 'SIGKILL');
+      await job.exited;
+    }
+  };
+
+  const registry: JobRegistry = {
+    start(options) {
+      const running = Array.from(jobs.values()).filter((job) => job.info.status === 'running');
+      if (running.length >= MAX_RUNNING_JOBS) {
+        return Promise.reject(
+          new Error(`Too many running jobs (max ${MAX_RUNNING_JOBS}). Stop one first.`)
+        );
+      }
+
+      const child = spawn(options.command, options.args, {
+        cwd: process.cwd(),
+        env: { ...process.env, ...options.secrets },
+        shell: false, // Prevent shell injection
+        stdio: ['ignore', 'pipe', 'pipe'],
+        detached: process.platform !== 'win32',
+      });
+
+      const info: JobInfo = {
+        id: `job_${randomUUID().slice(0, 8)}`,
+        command: options.command,
+        args: options.args,
+        environment: options.environment,
+        pid: null,
+        status: 'running',
+        exitCode: null,
+        signal: null,
+        startedAt: new Date().toISOString(),
+        endedAt: null,
+        lineCount: 0,
+      };
+
+      let markExited: () => void = () => {};
+      const job: Job = {
+        info,
+        child,
+        mask: options.mask,
+        partialSecretLength: options.partialSecretLength,
+        lines: [],
+        dropped: 0,
+        streams: {
+          stdout: { raw: '', line: '', cut: false },
+          stderr: { raw: '', line: '', cut: false },
+        },
+        stopRequested: false,
+        exited: new Promise<void>((resolve) => {
+          markExited = resolve;
+        }),
+      };
+
+      // Decoded as streams so multi-byte characters split across chunks stay intact
+      child.stdout!.setEncoding('utf-8');
+      child.stderr!.setEncoding('utf-8');
+      child.stdout!.on('data', (data: string) => appendOutput(job, 'stdout', data));
+      child.stderr!.on('data', (data: string) => appendOutput(job, 'stderr', data));
+
+      child.on('close', (code, signal) => {
+        appendOutput(job, 'stdout', '', true);
+        appendOutput(job, 'stderr', '', true);
+        info.status = job.stopRequested ? 'stopped' : 'exited';
+        info.exitCode = code;
+        info.signal = signal;
+        info.endedAt = new Date().toISOString();
+        markExited();
+        pruneFinished();
+      });
+
+      return new Promise<JobInfo>((resolve, reject) => {
+        child.once('spawn', () => {
+          info.pid = child.pid ?? null;
+          jobs.set(info.id, job);
+          resolve({ ...info });
+        });
+        child.once('error', (error) => {
+          if (info.pid === null) {
+            reject(new Error(`Failed to execute command: ${error.message}`));
+          }
+        });
+      });
+    },
+
+    get(id) {
+      const job = jobs.get(id);
+      return job && { ...job.info };
+    },
+
+    list() {
+      return Array.from(jobs.values()).map((job) => ({ ...job.info }));
+    },
+
+    logs(id, { offset, tail, limit = DEFAULT_LOG_LIMIT }) {
+      const job = jobs.get(id);
+      if (!job) return undefined;
+
+      const total = job.dropped + job.lines.length;
+      let start: number;
+      let end: number;
+      if (tail !== undefined) {
+        start = Math.max(job.dropped, total - Math.min(tail, limit));
+        end = total;
+      } else {
+        start = Math.min(Math.max(job.dropped, offset ?? job.dropped), total);
+        end = Math.min(total, start + limit);
+      }
+
+      const selected = job.lines.slice(start - job.dropped, end - job.dropped);
+      return {
+        output: selected.join('\n'),
+        offset: start,
+        nextOffset: end,
+        total,
+        dropped: job.dropped,
+      };
+    },
+
+    async stop(id, timeoutMs = DEFAULT_STOP_TIMEOUT_MS) {
+      const job = jobs.get(id);
+      if (!job) return undefined;
+      await stopJob(job, timeoutMs);
+      return { ...job.info };
+    },
+
+    async stopAll(timeoutMs = DEFAULT_STOP_TIMEOUT_MS) {
+      await Promise.all(Array.from(jobs.values()).map((job) => stopJob(job, timeoutMs)));
+    },
+
+    killAll() {
+      for (const job of jobs.values()) {
+        if (job.info.status === 'running') {
+          signalJob(job.child, 'SIGKILL');
+        }
+      }
+    },
+
+    async close() {
+      await registry.stopAll();
+      registries.delete(registry);
+    },
+  };
+
+  registries.add(registry);
+  installExitHook();
+  return registry;
+}
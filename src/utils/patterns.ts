@@ -0,0 +1,31 @@
+/**
+ * Secret name patterns
+ * Supports exact names and "*" wildcards (e.g., STRIPE_*, *_URL)
+ */
+
+/**
+ * Convert a key pattern to an anchored regular expression
+ */
+function patternToRegex(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Check whether a key matches any of the patterns
+ */
+export function matchesAnyPattern(key: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => patternToRegex(pattern).test(key));
+}
+
+/**
+ * Apply include/exclude filters to a list of keys
+ * An empty or missing include list matches every key
+ */
+export function filterKeys(keys: string[], include?: string[], exclude?: string[]): string[] {
+  return keys.filter(
+    (key) =>
+      (!include || include.length === 0 || matchesAnyPattern(key, include)) &&
+      !(exclude && matchesAnyPattern(key, exclude))
+  );
+}
@@ -0,0 +1,97 @@
+/**
+ * Tool policy - restricts which tools the server exposes
+ * Disallowed tools stay listed with a stub that returns a policy error,
+ * so the model gets a clear explanation instead of "tool not found"
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolPolicy } from './config.js';
+
+type PolicyDecision = { allowed: true } | { allowed: false; reason: string };
+
+// The stub does nothing, so hosts can call it without asking
+const POLICY_STUB_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: true,
+  destructiveHint: false,
+  idempotentHint: true,
+  openWorldHint: false,
+};
+
+/**
+ * Decide whether a tool may be registered under the policy
+ * In read-only mode, any tool not annotated with readOnlyHint is refused
+ */
+export function checkToolPolicy(
+  policy: ToolPolicy,
+  name: string,
+  annotations?: ToolAnnotations
+): PolicyDecision {
+  if (policy.deny.includes(name)) {
+    return { allowed: false, reason: 'it is excluded by the server configuration' };
+  }
+
+  if (policy.allow && !policy.allow.includes(name)) {
+    return { allowed: false, reason: 'it is not in the allowed tools list' };
+  }
+
+  if (policy.readOnly && annotations?.readOnlyHint !== true) {
+    return { allowed: false, reason: 'the server is running in read-only mode' };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Build the error result returned by a disallowed tool
+ */
+export function policyErrorResult(name: string, reason: string): CallToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `Error: Tool "${name}" is disabled by server policy because ${reason}. Ask the user to change the keyway-mcp server options if this tool is needed.`,
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Wrap server.registerTool so every registration goes through the tool policy
+ * assertKnownTools throws if the policy names a tool that was never registered,
+ * so a typo in an exclude list can't silently leave a tool enabled
+ */
+export function createToolRegistrar(server: McpServer, policy: ToolPolicy) {
+  const registered = new Set<string>();
+
+  const registerTool = ((name, config, cb) => {
+    registered.add(name);
+
+    const decision = checkToolPolicy(policy, name, config.annotations);
+    if (!decision.allowed) {
+      return server.registerTool(
+        name,
+        {
+          title: config.title,
+          description: `${config.description} (Disabled by server policy: ${decision.reason}.)`,
+          annotations: POLICY_STUB_ANNOTATIONS,
+        },
+        async () => policyErrorResult(name, decision.reason)
+      );
+    }
+
+    return server.registerTool(name, config, cb);
+  }) as McpServer['registerTool'];
+
+  function assertKnownTools(): void {
+    const unknown = [...(policy.allow ?? []), ...policy.deny].filter((n) => !registered.has(n));
+    if (unknown.length > 0) {
+      throw new Error(
+        `Unknown tool${unknown.length > 1 ? 's' : ''} in tool policy: ${unknown.join(', ')}`
+      );
+    }
+  }
+
+  return { registerTool, assertKnownTools };
+}
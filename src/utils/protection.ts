@@ -0,0 +1,110 @@
+/**
+ * Protected environments
+ * Writes to a protected environment need explicit human confirmation via MCP elicitation
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { supportsElicitation } from './elicitation.js';
+
+export const DEFAULT_PROTECTED_ENVIRONMENTS = ['production'];
+
+export type WriteAction = 'create' | 'overwrite' | 'delete';
+
+export interface ProtectedWrite {
+  repository: string;
+  environment: string;
+  keys: { name: string; action: WriteAction }[];
+  // Consequences the user should know about before confirming
+  warnings?: string[];
+}
+
+export interface WriteGuard {
+  isProtected(environment: string): boolean;
+  /**
+   * Ask the user to confirm a write
+   * Resolves to null when the write may proceed, or to a refusal result otherwise
+   */
+  confirmWrite(write: ProtectedWrite): Promise<CallToolResult | null>;
+}
+
+/**
+ * Build the refusal returned when a protected write is not confirmed
+ */
+function refusal(environment: string, reason: string): CallToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `Write to protected environment "${environment}" was not performed: ${reason}. Nothing was changed.`,
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Describe the pending write for the confirmation prompt
+ */
+function describeWrite(write: ProtectedWrite): string {
+  const lines = write.keys.map(({ name, action }) => `- ${action} ${name}`);
+  if (lines.length === 0) {
+    lines.push('- (no keys)');
+  }
+  for (const warning of write.warnings ?? []) {
+    lines.push(`Warning: ${warning}`);
+  }
+  return `Confirm write to protected environment "${write.environment}" of ${write.repository}:\n${lines.join('\n')}`;
+}
+
+/**
+ * Create a write guard that confirms protected writes with the connected client
+ * Clients without elicitation support get a refusal, never a silent write
+ */
+export function createWriteGuard(server: Server, protectedEnvironments: string[]): WriteGuard {
+  const protectedSet = new Set(protectedEnvironments.map((env) => env.toLowerCase()));
+
+  return {
+    isProtected(environment) {
+      return protectedSet.has(environment.toLowerCase());
+    },
+
+    async confirmWrite(write) {
+      if (!this.isProtected(write.environment)) {
+        return null;
+      }
+
+      if (!supportsElicitation(server)) {
+        return refusal(
+          write.environment,
+          'this client does not support confirmation prompts (MCP elicitation)'
+        );
+      }
+
+      try {
+        const result = await server.elicitInput({
+          message: describeWrite(write),
+          requestedSchema: {
+            type: 'object',
+            properties: {
+              confirm: {
+                type: 'boolean',
+                title: 'Confirm',
+                description: `Apply ${write.keys.length} change${write.keys.length === 1 ? '' : 's'} to "${write.environment}"`,
+              },
+            },
+            required: ['confirm'],
+          },
+        });
+
+        if (result.action === 'accept' && result.content?.confirm === true) {
+          return null;
+        }
+        return refusal(write.environment, 'the user declined the change');
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return refusal(write.environment, `confirmation failed (${message})`);
+      }
+    },
+  };
+}
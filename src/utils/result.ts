@@ -0,0 +1,27 @@
+/**
+ * Tool result helpers
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Build a tool result carrying the same payload as JSON text and as structured content
+ * Text content is kept for clients that don't read structuredContent
+ */
+export function jsonResult(data: object, isError = false): CallToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+    structuredContent: data as Record<string, unknown>,
+    isError,
+  };
+}
+
+/**
+ * Build an error result carrying a plain text message
+ */
+export function errorResult(text: string): CallToolResult {
+  return {
+    content: [{ type: 'text', text }],
+    isError: true,
+  };
+}
@@ -0,0 +1,13 @@
+/**
+ * Secret name rules
+ * Secrets are injected as environment variables, so names are UPPERCASE_WITH_UNDERSCORES
+ */
+
+export const SECRET_NAME_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+
+/**
+ * Check whether a name is a valid secret name
+ */
+export function isSecretName(name: string): boolean {
+  return SECRET_NAME_PATTERN.test(name);
+}
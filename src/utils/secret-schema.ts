@@ -0,0 +1,162 @@
+/**
+ * Typed secret schema (keyway.schema.json)
+ * Declares the type, requirement and description of each secret so values can be checked locally
+ */
+
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { totalEntropyBits } from './entropy.js';
+import { SECRET_NAME_PATTERN } from './secret-name.js';
+
+export const SCHEMA_FILE_NAME = 'keyway.schema.json';
+
+const DEFAULT_MIN_ENTROPY_BITS = 128;
+
+const baseSpec = {
+  description: z.string().optional(),
+  // true/false, or the environments where the secret is required
+  required: z.union([z.boolean(), z.array(z.string())]).optional(),
+};
+
+const secretSpecSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('string'), ...baseSpec, minLength: z.number().int().optional() }),
+  z.object({ type: z.literal('url'), ...baseSpec, schemes: z.array(z.string()).optional() }),
+  z.object({ type: z.literal('postgres-url'), ...baseSpec }),
+  z.object({
+    type: z.literal('integer'),
+    ...baseSpec,
+    min: z.number().optional(),
+    max: z.number().optional(),
+  }),
+  z.object({ type: z.literal('enum'), ...baseSpec, values: z.array(z.string()).min(1) }),
+  z.object({ type: z.literal('jwt-secret'), ...baseSpec, minEntropy: z.number().optional() }),
+  z.object({ type: z.literal('pem'), ...baseSpec }),
+]);
+
+const secretSchemaFileSchema = z.object({
+  secrets: z.record(
+    z.string().regex(SECRET_NAME_PATTERN, 'Secret names must be UPPERCASE_WITH_UNDERSCORES'),
+    secretSpecSchema
+  ),
+});
+
+export type SecretSpec = z.infer<typeof secretSpecSchema>;
+export type SecretSchema = z.infer<typeof secretSchemaFileSchema>;
+
+/**
+ * Load and validate a schema file
+ * Throws with a readable message if the file is not valid JSON or does not match the format
+ */
+export function loadSecretSchema(filePath: string): SecretSchema {
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Could not read ${filePath}: ${message}`);
+  }
+
+  const result = secretSchemaFileSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid schema in ${filePath}: ${issues}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Check whether a secret is required in an environment (required by default)
+ */
+export function isRequiredIn(spec: SecretSpec, environment: string): boolean {
+  if (Array.isArray(spec.required)) {
+    return spec.required.includes(environment);
+  }
+  return spec.required ?? true;
+}
+
+/**
+ * Parse a URL, or return null if the value is not an absolute URL
+ */
+function parseUrl(value: string): URL | null {
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check a value against its declared type
+ * Returns the reason the check failed, or null if the value is valid
+ * Security: Reasons never include the value
+ */
+export function checkSecretValue(spec: SecretSpec, value: string): string | null {
+  switch (spec.type) {
+    case 'string':
+      if (spec.minLength !== undefined && value.length < spec.minLength) {
+        return `shorter than ${spec.minLength} characters`;
+      }
+      return null;
+
+    case 'url': {
+      const url = parseUrl(value);
+      if (!url) {
+        return 'not a valid URL';
+      }
+      const scheme = url.protocol.replace(/:$/, '');
+      if (spec.schemes && !spec.schemes.includes(scheme)) {
+        return `URL scheme must be one of: ${spec.schemes.join(', ')}`;
+      }
+      return null;
+    }
+
+    case 'postgres-url': {
+      const url = parseUrl(value);
+      if (!url || (url.protocol !== 'postgres:' && url.protocol !== 'postgresql:')) {
+        return 'not a postgres:// or postgresql:// URL';
+      }
+      if (!url.hostname) {
+        return 'missing database host';
+      }
+      return null;
+    }
+
+    case 'integer': {
+      if (!/^-?\d+$/.test(value.trim())) {
+        return 'not an integer';
+      }
+      const number = Number(value);
+      if (spec.min !== undefined && number < spec.min) {
+        return `less than ${spec.min}`;
+      }
+      if (spec.max !== undefined && number > spec.max) {
+        return `greater than ${spec.max}`;
+      }
+      return null;
+    }
+
+    case 'enum':
+      if (!spec.values.includes(value)) {
+        return `not one of: ${spec.values.join(', ')}`;
+      }
+      return null;
+
+    case 'jwt-secret': {
+      const minEntropy = spec.minEntropy ?? DEFAULT_MIN_ENTROPY_BITS;
+      const bits = totalEntropyBits(value);
+      if (bits < minEntropy) {
+        return `entropy of ${bits} bits is below the minimum of ${minEntropy}`;
+      }
+      return null;
+    }
+
+    case 'pem':
+      if (!/^-----BEGIN [A-Z0-9 ]+-----[\s\S]+-----END [A-Z0-9 ]+-----\s*$/.test(value.trim())) {
+        return 'not a PEM-encoded block';
+      }
+      return null;
+  }
+}
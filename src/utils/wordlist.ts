@@ -0,0 +1,76 @@
+/**
+ * Wordlist for diceware-style passphrases
+ * 1024 short, common and distinct English words, so each word adds exactly 10 bits of entropy
+ */
+
+const WORDS = `
+able acid acorn acrobat actor adapt admit adobe adult agent agile aging agree ahead aisle alarm
+album alert algae alien alley allow alloy almond aloft alpha alpine amber amend amino ample
+amuse anchor angle ankle apple apron arch arena argue armor aroma arrow artist ashore aspen
+asset atlas atom attic audio audit august aunt autumn avenue avoid awake award axis bacon badge
+bagel baker balcony ball bamboo banana band banjo bank barn barrel basil basin basket batch bath
+beach beacon bead beam bean bear beard beast bed beef beetle begin bell belt bench berry bike
+bingo birch bird bison black blade blank blanket blast blaze blend bless blimp blink bliss block
+bloom blossom blue blunt blush board boat body bolt bonus book boost boot border botany bottle
+boulder bounce box brain brake branch brass brave bread breeze brick bridge brief bright brisk
+broad bronze brook broom brush bubble bucket buddy budget buffalo bugle build bulb bunch bundle
+bunny burger burst bush butter button buzz cabin cable cactus cadet cake calm camel camera camp
+canal candle candy canoe canvas canyon cape card cargo carpet carrot cart carve case cash castle
+cedar cello census chalk chant chapel charm chart chase cheek cheer cheese chef cherry chess
+chest chick chief chimney chin chip choir chord chorus cider cinema circle circus citrus city
+civic claim clam clap clay clean clerk click cliff climb clinic clock cloud clover clown club
+coach coast cobalt cobra cocoa coconut code coffee coin comet comic compass cone coral cork corn
+cosmic cotton couch cougar count cover cowboy coyote crab craft crane crater crayon cream creek
+crest cricket crisp crown cruise crumb crust crystal cube cuckoo cupcake curl curtain curve
+cycle cymbal daisy dance dash dawn deck decoy deer delta denim dental depot desert desk dial
+diary diesel digit dime diner dingo dish diver dock doctor dolphin domain donkey donut door dose
+dove dozen draft dragon drama drawer dream dress drift drill drink drive drum duck dune dust
+dwarf eagle easel east echo eclipse edge eel elbow elder elk elm ember emblem empire energy
+engine enjoy entry envoy epic equal error essay ethics event exact exit expert extra fable
+fabric falcon fame fancy farm feast feather fence ferry festival fiber fiddle field fig finch
+fjord flag flame flash flask fleet flint flock flora flour flute foam focus fog folio forest
+fork fort forum fossil fountain fox frame fresh frog frost fruit fudge fuel fungus funnel gadget
+galaxy gallon game garage garden garlic gate gazelle gecko gem genius geyser ghost giant ginger
+giraffe glacier glad glass glide globe glory glove glow glue goat goblet gold golf gong goose
+gorilla gospel grain granite grape graph grass gravel gravy green grid grill grin grove guard
+guava guest guide guitar gull gust habit hammer hamster hand harbor harp harvest hat hawk hazel
+heart hedge helmet herb hero heron hiking hill hinge hippo hobby hockey honey hood hook hope
+horizon horn horse hotel hound house hub humble humor hunter hut hydra icicle icon idea igloo
+image impact inch index indigo ink inlet input insect iris iron island ivory ivy jacket jaguar
+jam jar jasmine jazz jeans jelly jewel jigsaw jockey jogger joke journal joy judge juggle juice
+jumbo jungle junior jury kayak kebab kennel kernel kettle key kiosk kite kitten kiwi knee knight
+knot koala label ladder lady lagoon lake lamb lamp lantern laptop large laser latch lava lawn
+layer leaf ledge lemon lens leopard letter lever library lilac lily lime linen lion liquid
+lizard llama lobby lobster locket lodge logic lotus lucky lumber lunar lunch lyric magic magnet
+mango manor maple marble march market marsh mask mayor meadow meadowlark medal melon memo mentor
+menu merit mesa metal meteor midday mint mirror mitten mixer model modem molar moment monk
+monkey moon moose mosaic moss motel motor mountain mouse movie muffin mule museum music mustard
+myth nacho napkin narrow native nature navy nectar needle nest net nickel night ninja noble
+nomad noodle north notch novel nugget number nurse nutmeg oak oasis oat ocean octave octopus
+olive omega onion opal opera orange orbit orchid organ osprey otter outlet oval oven owl oxygen
+oyster paddle page palace palm panda panel panther paper parade parcel parrot party pasta patch
+path patio peach peanut pear pebble pecan pedal pelican pencil penguin pepper perch piano picnic
+pier pigeon pilot pine pirate pixel pizza planet plank plaza plum poem polar pond pony poppy
+porch potato powder prairie prism prize puffin pulse pumpkin puppy puzzle pyramid quail quartz
+queen quest quick quiet quill quilt quiver quota rabbit raccoon radar radio raft rain raisin
+rally ranch range raven razor recipe reef relay relic remedy rhino ribbon rice ridge rifle ring
+ripple river road robin robot rocket rodeo roof rookie rose rotor round royal ruby rudder rugby
+ruler rumba runway rustic saddle safari saga sage sail salad salmon salt sand sandal satin sauce
+sausage scale scarf school scone scout sculpt seal season seed shadow shark shelf shell sherbet
+shield ship shirt shore shovel shrimp signal silk silver siren skate sketch ski skunk sled slope
+smile snail snake snow soap soccer socket sofa solar sonic soup spade spark sparrow spice spider
+spiral sponge spoon sport spring spruce squid stable stamp star statue steam steel stem stone
+stool storm story stove straw stream street studio sugar suite summit sun sunset surf swan
+sweater swift swing symbol syrup table tablet taco tail talent tango tank tape target tavern
+teapot temple tennis tent thimble thorn thunder ticket tide tiger timber toast toffee token
+tomato tonic topaz torch tornado tortoise totem towel tower toy tractor trail train tram travel
+tray treasure tree trend tribe trophy truck trumpet tulip tuna tundra tunic tunnel turkey turtle
+tutor tuxedo twig twin umbrella unicorn union unit update upper urban usher utensil vacuum
+valley valve vanilla vapor vase vault velvet vendor venue verse vessel vest video villa vine
+violet violin visor vivid vocal volcano voyage waffle wagon walnut walrus wander warm wasp water
+wave wax weasel whale wheat wheel whisk whistle willow window winter wizard wolf wombat wonder
+wool world wrench yacht yak yard yarn yeast yellow yoga yogurt yolk young zebra zenith zero
+zigzag zinc zipper zone zoom
+`;
+
+export const WORDLIST: readonly string[] = WORDS.trim().split(/\s+/);